@@ -0,0 +1,350 @@
+
+import { ReadonlyVec2, vec2 } from 'gl-matrix';
+import { TouchGestures } from './gestures';
+import { CanvasBackend, PixelBuffer, RenderBackend, TextStyle } from './render';
+
+export type PointerKind = 'mouse' | 'pen' | 'touch';
+
+// Everything the canvas reacts to, in a form that can be saved and replayed.
+export type CanvasInputEvent =
+    | { type: 'pointer', phase: 'down' | 'move' | 'up', id: number, kind: PointerKind, x: number, y: number, buttons: number }
+    // Recordings made before pointer events were handled have these instead.
+    | { type: 'mouse', x: number, y: number, buttons: number }
+    | { type: 'wheel', deltaY: number }
+    | { type: 'keydown', code: string, repeat: boolean }
+    | { type: 'keyup', code: string };
+
+// The input state carried over between frames.
+export interface CanvasInputSnapshot {
+    mouse: [number, number];
+    mouseButton: number;
+    keysDown: string[];
+}
+
+export interface CanvasPointer {
+    id: number;
+    kind: PointerKind;
+    position: vec2;
+    buttons: number;
+}
+
+export class Canvas {
+    // The mouse, or the finger standing in for it on a touch screen. Demos that only need one pointer use this.
+    public mouse = vec2.create();
+    public mouseLast = vec2.create();
+    public mouseDelta = vec2.create();
+    public mouseWheel = 0;
+    public mouseButton = 0;
+    // tristate. non-existent = not pressed, false = pressed but not this frame, true = pressed this frame.
+    public keysDown = new Map<string, boolean>();
+    // Every pointer over the canvas. Touch and pen pointers are only here while they are down.
+    public pointers = new Map<number, CanvasPointer>();
+    private touchGestures = new TouchGestures();
+
+    private element: HTMLElement | null = null;
+    private cursorValue = 'default';
+
+    // When false, input from the document is ignored, e.g. while a recording is being replayed.
+    public liveInput = true;
+    // Called with every input event that the canvas handles.
+    public inputListener: ((e: CanvasInputEvent) => void) | null = null;
+
+    constructor(public backend: RenderBackend, public pixelRatio = 2) {
+    }
+
+    public getSize(size: number): number {
+        // sizes were authored assuming a devicePixelRatio of 2
+        return size * this.pixelRatio / 2;
+    }
+
+    public attachInput(element: HTMLElement): void {
+        this.element = element;
+        // Touches are ours to handle, rather than scrolling or zooming the page.
+        element.style.touchAction = 'none';
+        element.onpointerdown = (e) => {
+            element.setPointerCapture(e.pointerId);
+            this.updatePointerState(e, 'down');
+        };
+        element.onpointermove = (e) => this.updatePointerState(e, 'move');
+        element.onpointerup = (e) => this.updatePointerState(e, 'up');
+        element.onpointercancel = (e) => this.updatePointerState(e, 'up');
+        element.onwheel = this.updateMouseWheel.bind(this);
+
+        document.addEventListener('keydown', this.onKeyDown.bind(this), { capture: true });
+        document.addEventListener('keyup', this.onKeyUp.bind(this), { capture: true });
+        document.addEventListener('contextmenu', (e) => { e.preventDefault(); });
+    }
+
+    private onLiveInput(e: CanvasInputEvent): void {
+        if (this.liveInput)
+            this.handleInput(e);
+    }
+
+    private updatePointerState(e: PointerEvent, phase: 'down' | 'move' | 'up'): void {
+        const kind: PointerKind = e.pointerType === 'touch' || e.pointerType === 'pen' ? e.pointerType : 'mouse';
+        this.onLiveInput({ type: 'pointer', phase, id: e.pointerId, kind, x: e.clientX, y: e.clientY, buttons: e.buttons });
+        e.preventDefault();
+    }
+
+    private updateMouseWheel(e: WheelEvent): void {
+        this.onLiveInput({ type: 'wheel', deltaY: e.deltaY });
+    }
+
+    private onKeyDown(e: KeyboardEvent): void {
+        // Tab moves between the canvas widgets, rather than out of the page.
+        if (e.code === 'Tab')
+            e.preventDefault();
+        this.onLiveInput({ type: 'keydown', code: e.code, repeat: e.repeat });
+    }
+
+    private onKeyUp(e: KeyboardEvent): void {
+        this.onLiveInput({ type: 'keyup', code: e.code });
+    }
+
+    private setMouse(x: number, y: number, buttons: number): void {
+        this.mouse[0] = x;
+        this.mouse[1] = y;
+        vec2.sub(this.mouseDelta, this.mouse, this.mouseLast);
+        this.mouseButton = buttons;
+    }
+
+    private handlePointer(e: Extract<CanvasInputEvent, { type: 'pointer' }>): void {
+        if (e.phase === 'up' && e.kind !== 'mouse')
+            this.pointers.delete(e.id);
+        else
+            this.pointers.set(e.id, { id: e.id, kind: e.kind, position: vec2.fromValues(e.x, e.y), buttons: e.buttons });
+
+        if (e.kind !== 'touch') {
+            this.setMouse(e.x, e.y, e.buttons);
+            return;
+        }
+
+        const wasPrimary = this.touchGestures.isPrimary(e.id);
+        this.touchGestures.handleTouch(e.phase, e.id, e.x, e.y);
+        if (!wasPrimary && !this.touchGestures.isPrimary(e.id))
+            return;
+
+        // A finger going down doesn't move in from anywhere, so don't report a jump in position.
+        if (e.phase === 'down')
+            vec2.set(this.mouseLast, e.x, e.y);
+
+        this.setMouse(e.x, e.y, this.touchGestures.emulatesMouse ? 1 : 0);
+    }
+
+    public handleInput(e: CanvasInputEvent): void {
+        if (e.type === 'pointer') {
+            this.handlePointer(e);
+        } else if (e.type === 'mouse') {
+            this.setMouse(e.x, e.y, e.buttons);
+        } else if (e.type === 'wheel') {
+            this.mouseWheel = e.deltaY;
+        } else if (e.type === 'keydown') {
+            this.keysDown.set(e.code, !e.repeat);
+        } else if (e.type === 'keyup') {
+            this.keysDown.delete(e.code);
+        }
+
+        if (this.inputListener !== null)
+            this.inputListener(e);
+    }
+
+    public getInputSnapshot(): CanvasInputSnapshot {
+        return {
+            mouse: [this.mouse[0], this.mouse[1]],
+            mouseButton: this.mouseButton,
+            keysDown: [... this.keysDown.keys()],
+        };
+    }
+
+    public restoreInputSnapshot(snapshot: CanvasInputSnapshot): void {
+        vec2.set(this.mouse, snapshot.mouse[0], snapshot.mouse[1]);
+        vec2.copy(this.mouseLast, this.mouse);
+        vec2.zero(this.mouseDelta);
+        this.mouseWheel = 0;
+        this.mouseButton = snapshot.mouseButton;
+        this.pointers.clear();
+        this.touchGestures.reset();
+        this.keysDown.clear();
+        for (const code of snapshot.keysDown)
+            this.keysDown.set(code, false);
+    }
+
+    public isKeyDownEventTriggered(key: string): boolean {
+        return !!this.keysDown.get(key);
+    }
+
+    public isKeyDown(key: string): boolean {
+        return this.keysDown.has(key);
+    }
+
+    // Pinch and twist gestures on a touch screen since the last frame: how much the fingers moved apart, as
+    // a scale, and how far they turned, in radians.
+    public get pinchScale(): number {
+        return this.touchGestures.pinchScale;
+    }
+
+    public get twistAngle(): number {
+        return this.touchGestures.twistAngle;
+    }
+
+    // Called at the start of every frame, with the frame's time in milliseconds.
+    public beginFrame(time: number): void {
+        this.touchGestures.update(time);
+
+        // A long press turns into scrubbing, which lets go of the mouse and stands in for the wheel instead.
+        // So does a second finger, which starts a pinch.
+        if (!this.touchGestures.emulatesMouse && this.mouseButton !== 0 && [... this.pointers.values()].some((p) => p.kind === 'touch'))
+            this.mouseButton = 0;
+        if (this.touchGestures.scrubSteps !== 0)
+            this.mouseWheel = this.touchGestures.scrubSteps;
+    }
+
+    public endFrame(): void {
+        this.touchGestures.endFrame();
+        this.mouseWheel = 0;
+        vec2.copy(this.mouseLast, this.mouse);
+        vec2.zero(this.mouseDelta);
+
+        // Go through and mark all keys as non-event-triggered.
+        this.keysDown.forEach((v, k) => {
+            this.keysDown.set(k, false);
+        });
+    }
+
+    public get cursor(): string {
+        return this.cursorValue;
+    }
+
+    // Sets the CSS cursor over the canvas.
+    public setCursor(cursor: string): void {
+        if (cursor === this.cursorValue)
+            return;
+
+        this.cursorValue = cursor;
+        if (this.element !== null)
+            this.element.style.cursor = cursor;
+    }
+
+    public clearScreen(color: string): void {
+        this.backend.clear(color);
+    }
+
+    public drawPoint(canvasPosition: ReadonlyVec2, color = 'black', size = 8): void {
+        // Draw a circle centered at canvasPosition, with a radius of size / 2.
+        this.backend.fillCircle(canvasPosition, this.getSize(size / 2), color);
+    }
+
+    public drawCircle(canvasPosition: ReadonlyVec2, radius: number, color = 'black', size = 8): void {
+        // Draw a circle centered at canvasPosition, with a radius of size / 2.
+        this.backend.strokeCircle(canvasPosition, radius / 2, color, this.getSize(size));
+    }
+
+    public drawLine(canvasPositionA: ReadonlyVec2, canvasPositionB: ReadonlyVec2, color = 'black', lineWidth = 2): void {
+        this.backend.strokeLine(canvasPositionA, canvasPositionB, color, this.getSize(lineWidth));
+    }
+
+    public drawArrow(canvasPositionA: ReadonlyVec2, canvasPositionB: ReadonlyVec2, color = 'black', lineWidth = 2): void {
+        this.backend.pushGroup('arrow');
+        this.backend.strokeLine(canvasPositionA, canvasPositionB, color, this.getSize(lineWidth));
+
+        // Draw the little arrows at canvasPositionB.
+        const dir = vec2.sub(vec2.create(), canvasPositionB, canvasPositionA);
+        vec2.normalize(dir, dir);
+        const arrowSize = this.getSize(lineWidth) * 2.0;
+        const arrowP1X = -dir[1] * arrowSize, arrowP1Y =  dir[0] * arrowSize;
+        const arrowP2X =  dir[1] * arrowSize, arrowP2Y = -dir[0] * arrowSize;
+        const arrowP3X =  dir[0] * 20, arrowP3Y =  dir[1] * 20;
+        this.backend.fillPolygon([
+            canvasPositionB,
+            vec2.fromValues(canvasPositionB[0] + arrowP1X, canvasPositionB[1] + arrowP1Y),
+            vec2.fromValues(canvasPositionB[0] + arrowP3X, canvasPositionB[1] + arrowP3Y),
+            vec2.fromValues(canvasPositionB[0] + arrowP2X, canvasPositionB[1] + arrowP2Y),
+        ], color);
+        this.backend.popGroup();
+    }
+
+    public drawPolygon(canvasPositions: ReadonlyVec2[], color: string): void {
+        this.backend.fillPolygon(canvasPositions, color);
+    }
+
+    public drawGridPlane(canvasPositionCenter: ReadonlyVec2, basisX: ReadonlyVec2, basisY: ReadonlyVec2, gridSize: number, cellCount: number, color: string = 'black', lineWidth: number = 4): void {
+        const halfGridSize = gridSize * 0.5;
+
+        this.backend.pushGroup('grid');
+
+        // Do lines along the X basis first ("horizontal").
+        for (let i = 0; i <= cellCount; i++) {
+            const t = (i / cellCount) * 2.0 - 1.0;
+
+            // Compute the left and right points of the "horizontal" line.
+            const canvasPositionA = vec2.scaleAndAdd(vec2.create(), canvasPositionCenter, basisX, -halfGridSize);
+            vec2.scaleAndAdd(canvasPositionA, canvasPositionA, basisY, t * halfGridSize);
+
+            const canvasPositionB = vec2.scaleAndAdd(vec2.create(), canvasPositionCenter, basisX, halfGridSize);
+            vec2.scaleAndAdd(canvasPositionB, canvasPositionB, basisY, t * halfGridSize);
+
+            this.drawLine(canvasPositionA, canvasPositionB, color, lineWidth);
+        }
+
+        // Do lines along the Y basis now ("vertical").
+        for (let i = 0; i <= cellCount; i++) {
+            const t = (i / cellCount) * 2.0 - 1.0;
+
+            // Compute the top and bottom points of the "vertical" line.
+            const canvasPositionA = vec2.scaleAndAdd(vec2.create(), canvasPositionCenter, basisY, -halfGridSize);
+            vec2.scaleAndAdd(canvasPositionA, canvasPositionA, basisX, t * halfGridSize);
+
+            const canvasPositionB = vec2.scaleAndAdd(vec2.create(), canvasPositionCenter, basisY, halfGridSize);
+            vec2.scaleAndAdd(canvasPositionB, canvasPositionB, basisX, t * halfGridSize);
+
+            this.drawLine(canvasPositionA, canvasPositionB, color, lineWidth);
+        }
+
+        this.backend.popGroup();
+    }
+
+    public drawImage(image: PixelBuffer, x: number, y: number, w: number, h: number): void {
+        this.backend.drawImage(image, x, y, w, h);
+    }
+
+    public fillRect(x: number, y: number, w: number, h: number, color: string): void {
+        this.backend.fillRect(x, y, w, h, color);
+    }
+
+    public strokeRect(x: number, y: number, w: number, h: number, color: string, lineWidth: number): void {
+        this.backend.strokeRect(x, y, w, h, color, this.getSize(lineWidth));
+    }
+
+    private textStyle(color: string, size: number, align: TextStyle['align'], baseline: TextStyle['baseline']): TextStyle {
+        return { color, size: this.getSize(size), align, baseline };
+    }
+
+    public drawText(text: string, x: number, y: number, color = '#333', size = 24, align: TextStyle['align'] = 'left', baseline: TextStyle['baseline'] = 'alphabetic'): void {
+        this.backend.fillText(text, x, y, this.textStyle(color, size, align, baseline));
+    }
+
+    public measureText(text: string, size = 24): number {
+        return this.backend.measureText(text, this.textStyle('black', size, 'left', 'alphabetic'));
+    }
+
+    public get width() { return this.backend.width; }
+    public get height() { return this.backend.height; }
+}
+
+// Creates a canvas that fills the browser window, and listens to mouse and keyboard input.
+export function createDocumentCanvas(): Canvas {
+    const element = document.createElement('canvas');
+    document.body.appendChild(element);
+
+    const canvas = new Canvas(new CanvasBackend(element.getContext('2d')!), window.devicePixelRatio);
+    canvas.attachInput(element);
+
+    const onResize = () => {
+        canvas.backend.resize(window.innerWidth, window.innerHeight);
+        canvas.pixelRatio = window.devicePixelRatio;
+    };
+    window.addEventListener('resize', onResize);
+    onResize();
+
+    return canvas;
+}
@@ -0,0 +1,125 @@
+
+import { ReadonlyVec2, vec2 } from 'gl-matrix';
+import { Canvas } from './canvas';
+import { clamp } from './util';
+
+// Line charts, for plotting what a demo measures next to what the math says it should be. Like everything
+// else they're drawn from scratch every frame, so a chart is only a description of what to draw.
+
+export interface ChartAxis {
+    min: number;
+    max: number;
+    label: string;
+    // Where the tick marks go. Each is labelled with format, which defaults to the plain number.
+    ticks?: readonly number[];
+    format?: (v: number) => string;
+}
+
+// Either a function of x, which is sampled across the x axis, or points to join up in order.
+export interface ChartCurve {
+    label: string;
+    color: string;
+    f?: (x: number) => number;
+    points?: readonly ReadonlyVec2[];
+    lineWidth?: number;
+}
+
+// A dot on the chart, e.g. for the value the demo is at right now. Markers with a label go in the legend
+// after the curves.
+export interface ChartMarker {
+    x: number;
+    y: number;
+    color: string;
+    size?: number;
+    label?: string;
+}
+
+export interface Chart {
+    // The chart's panel, in canvas pixels. The plot goes inside it, leaving room for the tick labels.
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    title?: string;
+    xAxis: ChartAxis;
+    yAxis: ChartAxis;
+    curves: readonly ChartCurve[];
+    markers?: readonly ChartMarker[];
+    // Draws a line up the chart at this x, e.g. through the markers.
+    cursorX?: number;
+}
+
+const curveSampleCount = 64;
+
+function formatTick(axis: ChartAxis, v: number): string {
+    return axis.format !== undefined ? axis.format(v) : `${v}`;
+}
+
+// Values outside the y axis are drawn at its ends. Anything that isn't a number at all, like 1 / 0, leaves
+// a gap in the curve.
+export function drawChart(canvas: Canvas, chart: Chart): void {
+    const { xAxis, yAxis } = chart;
+    canvas.fillRect(chart.x, chart.y, chart.width, chart.height, 'rgba(255, 255, 255, 0.7)');
+    canvas.strokeRect(chart.x, chart.y, chart.width, chart.height, '#ccc', 1);
+    if (chart.title !== undefined)
+        canvas.drawText(chart.title, chart.x, chart.y - canvas.getSize(12), '#333', 20);
+
+    const left = chart.x + canvas.getSize(56), right = chart.x + chart.width - canvas.getSize(16);
+    const top = chart.y + canvas.getSize(16), bottom = chart.y + chart.height - canvas.getSize(36);
+    const toCanvas = (x: number, y: number) => vec2.fromValues(
+        left + (right - left) * (x - xAxis.min) / (xAxis.max - xAxis.min),
+        bottom - (bottom - top) * (clamp(y, yAxis.min, yAxis.max) - yAxis.min) / (yAxis.max - yAxis.min),
+    );
+    const inRange = (x: number) => x >= xAxis.min && x <= xAxis.max;
+
+    // The axes, with their ticks.
+    canvas.drawLine([left, bottom], [right, bottom], '#999', 1);
+    canvas.drawLine([left, bottom], [left, top], '#999', 1);
+    for (const tick of xAxis.ticks ?? []) {
+        const p = toCanvas(tick, yAxis.min);
+        canvas.drawLine(p, [p[0], p[1] + canvas.getSize(6)], '#999', 1);
+        canvas.drawText(formatTick(xAxis, tick), p[0], p[1] + canvas.getSize(10), '#999', 16, 'center', 'top');
+    }
+    for (const tick of yAxis.ticks ?? []) {
+        const p = toCanvas(xAxis.min, tick);
+        canvas.drawLine(p, [p[0] - canvas.getSize(6), p[1]], '#999', 1);
+        canvas.drawText(formatTick(yAxis, tick), p[0] - canvas.getSize(10), p[1], '#999', 16, 'right', 'middle');
+    }
+    canvas.drawText(xAxis.label, right, bottom - canvas.getSize(10), '#333', 20, 'right');
+    canvas.drawText(yAxis.label, left + canvas.getSize(10), top + canvas.getSize(12), '#333', 20);
+
+    if (chart.cursorX !== undefined && inRange(chart.cursorX))
+        canvas.drawLine(toCanvas(chart.cursorX, yAxis.min), toCanvas(chart.cursorX, yAxis.max), '#ccc', 1);
+
+    // The legend, in the top right corner.
+    const legend = [... chart.curves, ... chart.markers ?? []].filter((entry) => entry.label !== undefined);
+    legend.forEach((entry, i) => {
+        canvas.drawText(entry.label!, right - canvas.getSize(12), top + canvas.getSize(12 + i * 26), entry.color, 20, 'right');
+    });
+
+    for (const curve of chart.curves) {
+        const points: ReadonlyVec2[] = [... curve.points ?? []];
+        if (curve.f !== undefined) {
+            for (let j = 0; j <= curveSampleCount; j++) {
+                const x = xAxis.min + (xAxis.max - xAxis.min) * j / curveSampleCount;
+                points.push([x, curve.f(x)]);
+            }
+        }
+
+        let prev: vec2 | null = null;
+        for (const point of points) {
+            if (!Number.isFinite(point[1]) || !inRange(point[0])) {
+                prev = null;
+                continue;
+            }
+            const p = toCanvas(point[0], point[1]);
+            if (prev !== null)
+                canvas.drawLine(prev, p, curve.color, curve.lineWidth ?? 3);
+            prev = p;
+        }
+    }
+
+    for (const marker of chart.markers ?? [])
+        if (Number.isFinite(marker.y) && inRange(marker.x))
+            canvas.drawPoint(toCanvas(marker.x, marker.y), marker.color, marker.size ?? 10);
+}
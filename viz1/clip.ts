@@ -0,0 +1,74 @@
+
+import { ReadonlyVec4, vec4 } from 'gl-matrix';
+import { clipToPlane } from './util';
+
+// Clipping in homogeneous clip space, before the divide by w. A point is inside the view volume when
+// -w <= x, y, z <= w, which is six planes, each written as a vec4 whose dot product with the point is
+// positive on the inside. Clipping here, rather than after the divide, also takes care of everything
+// behind the eye, where w goes negative and the divide would flip it onto the screen.
+
+export interface ClipPlane {
+    name: string;
+    normal: ReadonlyVec4;
+}
+
+// The extent shrinks the left, right, bottom and top planes towards the center of the screen, which is
+// used to see the clipping at work.
+export function createClipPlanes(extent = 1): ClipPlane[] {
+    return [
+        { name: 'Left', normal: [1, 0, 0, extent] },
+        { name: 'Right', normal: [-1, 0, 0, extent] },
+        { name: 'Bottom', normal: [0, 1, 0, extent] },
+        { name: 'Top', normal: [0, -1, 0, extent] },
+        { name: 'Near', normal: [0, 0, 1, 1] },
+        { name: 'Far', normal: [0, 0, -1, 1] },
+    ];
+}
+
+export const frustumClipPlanes: readonly ClipPlane[] = createClipPlanes();
+export const nearClipPlane = frustumClipPlanes[4];
+
+export function isInsideClipPlanes(clipPosition: ReadonlyVec4, planes: readonly ClipPlane[] = frustumClipPlanes): boolean {
+    return planes.every((plane) => vec4.dot(clipPosition, plane.normal) >= 0);
+}
+
+// Returns the part of the line from A to B inside all the planes, or null if there's nothing left.
+export function clipLine(clipPositionA: ReadonlyVec4, clipPositionB: ReadonlyVec4, planes: readonly ClipPlane[] = frustumClipPlanes): [vec4, vec4] | null {
+    const a = vec4.clone(clipPositionA), b = vec4.clone(clipPositionB);
+    for (const plane of planes)
+        if (!clipToPlane(a, b, plane.normal))
+            return null;
+    return [a, b];
+}
+
+// Sutherland–Hodgman: the polygon is clipped by one plane at a time, walking its edges and keeping the
+// vertices inside, plus a new vertex wherever an edge crosses the plane. Works on any kind of vertex,
+// given where it is in clip space and how to blend two of them.
+export function clipPolygonVertices<V>(polygon: readonly V[], planes: readonly ClipPlane[], getClipPosition: (v: V) => ReadonlyVec4, lerp: (a: V, b: V, t: number) => V): V[] {
+    let vertices = polygon.slice();
+    for (const plane of planes) {
+        if (vertices.length === 0)
+            break;
+
+        const clipped: V[] = [];
+        for (let i = 0; i < vertices.length; i++) {
+            const a = vertices[i], b = vertices[(i + 1) % vertices.length];
+            const dotA = vec4.dot(getClipPosition(a), plane.normal);
+            const dotB = vec4.dot(getClipPosition(b), plane.normal);
+
+            if (dotA >= 0)
+                clipped.push(a);
+            if ((dotA >= 0) !== (dotB >= 0))
+                clipped.push(lerp(a, b, dotA / (dotA - dotB)));
+        }
+        vertices = clipped;
+    }
+
+    // Anything less isn't a polygon any more.
+    return vertices.length >= 3 ? vertices : [];
+}
+
+export function clipPolygon(polygon: readonly ReadonlyVec4[], planes: readonly ClipPlane[] = frustumClipPlanes): vec4[] {
+    const vertices = polygon.map((v) => vec4.clone(v));
+    return clipPolygonVertices(vertices, planes, (v) => v, (a, b, t) => vec4.lerp(vec4.create(), a, b, t));
+}
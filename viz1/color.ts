@@ -0,0 +1,48 @@
+
+import { ReadonlyVec3, vec3 } from 'gl-matrix';
+
+// Colors for lighting. Light adds up and scales in linear RGB, where the numbers are proportional to the
+// amount of light. CSS colors and the pixels on screen are sRGB instead, which spends more of its 256
+// steps on dark colors, where eyes tell more of them apart. So colors are decoded from sRGB before any
+// lighting is done with them, and encoded back into it at the very end.
+
+// The sRGB transfer function, for one channel from 0 to 1.
+export function decodeSRGB(v: number): number {
+    return v <= 0.04045 ? v / 12.92 : ((v + 0.055) / 1.055) ** 2.4;
+}
+
+export function encodeSRGB(v: number): number {
+    v = Math.min(Math.max(v, 0), 1);
+    return v <= 0.0031308 ? v * 12.92 : 1.055 * v ** (1 / 2.4) - 0.055;
+}
+
+// A '#rrggbb' CSS color, as linear RGB.
+export function parseColor(hex: string): vec3 {
+    const color = vec3.create();
+    for (let i = 0; i < 3; i++)
+        color[i] = decodeSRGB(parseInt(hex.slice(1 + i * 2, 3 + i * 2), 16) / 255);
+    return color;
+}
+
+// Encodes a linear RGB color into sRGB. Anything outside 0 to 1 is clamped.
+export function encodeColor(out: vec3, color: ReadonlyVec3): vec3 {
+    for (let i = 0; i < 3; i++)
+        out[i] = encodeSRGB(color[i]);
+    return out;
+}
+
+// An sRGB color that's already encoded, as a '#rrggbb' CSS color.
+export function toHexColor(srgb: ReadonlyVec3): string {
+    return `#${Array.from(srgb, (v) => Math.round(Math.min(Math.max(v, 0), 1) * 255).toString(16).padStart(2, '0')).join('')}`;
+}
+
+// As a '#rrggbb' CSS color, so that it works anywhere the hex colors do, linearColorLerp included.
+export function toCSSColor(color: ReadonlyVec3): string {
+    return toHexColor(encodeColor(vec3.create(), color));
+}
+
+// Blends two '#rrggbb' colors by the amounts of light in them rather than their sRGB values, which is
+// what mixing two lights would do.
+export function linearColorLerp(ca: string, cb: string, t: number): string {
+    return toCSSColor(vec3.lerp(vec3.create(), parseColor(ca), parseColor(cb), t));
+}
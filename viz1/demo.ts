@@ -0,0 +1,67 @@
+
+import { Canvas } from './canvas';
+import { HandleRegistry } from './handles';
+import { StateRules } from './state';
+import { UI } from './ui';
+import { View2D } from './view2d';
+import { View3D } from './view3d';
+
+// Everything a demo gets to work with during a frame. This is implemented by Viz.
+export interface DemoContext {
+    readonly canvas: Canvas;
+    readonly view2D: View2D;
+    readonly view3D: View3D;
+    // False while drawing a frame for export, so that nothing reacts to the mouse.
+    readonly interactive: boolean;
+    // The time of the current frame, in milliseconds.
+    readonly time: number;
+
+    // The handles in the scene that can be dragged, or moved with the keyboard.
+    readonly handles: HandleRegistry;
+    // Widgets drawn on top of the scene.
+    readonly ui: UI;
+
+    // Describes values that are only drawn into the canvas, for screen readers. Call it every frame.
+    announce(text: string): void;
+
+    // Returns the value kept under key, making it first if there isn't one yet. It's for things a demo keeps
+    // from frame to frame that aren't part of the state, like the camera's momentum. They're thrown away
+    // whenever the demo or the state is replaced, and when a recording starts or is replayed.
+    transient<T>(key: string, create: () => T): T;
+}
+
+export interface Demo<S extends object = object> {
+    readonly id: string;
+    readonly title: string;
+
+    // The slice of the scene state that this demo uses, with its default values. Slices from all
+    // demos are merged into one state object, so demos that share a field must agree on its default.
+    readonly stateDefault: S;
+    // Validation for the fields above, used when loading saved state and links.
+    readonly stateRules?: StateRules<S>;
+
+    // Handles input and draws the scene.
+    update(ctx: DemoContext, state: S): void;
+
+    // Draws and handles any UI on top of the scene.
+    widgets?(ctx: DemoContext, state: S): void;
+}
+
+// Each demo's state type is only known to the demo itself. Viz passes them all the same merged state.
+const demos: Demo<object>[] = [];
+
+// Demos are listed in the order they are registered; the first nine are also bound to the digit keys.
+export function registerDemo(demo: Demo): void {
+    if (findDemo(demo.id) !== undefined)
+        throw new Error(`Demo ${demo.id} is already registered`);
+
+    demos.push(demo);
+}
+
+export function getDemos(): readonly Demo[] {
+    return demos;
+}
+
+export function findDemo(id: string): Demo | undefined {
+    return demos.find((demo) => demo.id === id);
+}
@@ -0,0 +1,480 @@
+
+import { ReadonlyVec3, mat4, vec2, vec3, vec4 } from 'gl-matrix';
+import { clipPolygon, frustumClipPlanes } from '../clip';
+import { Demo, DemoContext } from '../demo';
+import { Formula, colored, drawFormula, locateFormulaMarks, marked, matrix, measureFormula, variable } from '../formula';
+import { Mesh, createBoxMesh, createPolygonMesh, createSphereMesh } from '../mesh';
+import { StateRules } from '../state';
+import { OrbitCameraState, beginFrame3D, drawCameraModeRadio, orbitCameraStateDefault, orbitCameraStateRules } from './orbitCamera';
+import { ProjectionEditState, applyProjectionEdits, drawResetMatrixButton, editedCellColor, isCellEdited, isProjectionEdited, projectionEditStateDefault, projectionEditStateRules, updateMatrixCellHandle } from './projectionEdits';
+
+export type FrustumProjection = 'perspective' | 'orthographic';
+
+// The edits are made to the frustum's projection matrix.
+export interface CameraFrustumState extends OrbitCameraState, ProjectionEditState {
+    frustumProjection: string;
+    frustumFovy: number;
+    frustumAspect: number;
+    // The size of the orthographic view volume.
+    frustumWidth: number;
+    frustumHeight: number;
+    frustumFar: number;
+    frustumCubeLerp: number;
+    frustumShowObjects: boolean;
+}
+
+const cameraFrustumStateDefault: CameraFrustumState = {
+    ... orbitCameraStateDefault,
+    ... projectionEditStateDefault,
+    frustumProjection: 'perspective',
+    frustumFovy: 360 / 4.5,
+    frustumAspect: 16/9,
+    frustumWidth: 12,
+    frustumHeight: 6.75,
+    frustumFar: 15,
+    frustumCubeLerp: 0,
+    // The objects are rasterized, which would put a bitmap in every exported SVG, so they start hidden.
+    frustumShowObjects: false,
+};
+
+const frustumProjections: readonly FrustumProjection[] = ['perspective', 'orthographic'];
+
+// The frustum limits match the sliders.
+const cameraFrustumStateRules: StateRules<CameraFrustumState> = {
+    ... orbitCameraStateRules,
+    ... projectionEditStateRules,
+    frustumProjection: { values: () => frustumProjections },
+    frustumFovy: { min: 15, max: 180 },
+    frustumAspect: { min: 0.1, max: 3 },
+    frustumWidth: { min: 1, max: 30 },
+    frustumHeight: { min: 1, max: 30 },
+    frustumFar: { min: 0.1, max: 100 },
+    frustumCubeLerp: { min: 0, max: 1 },
+};
+
+function computeUneditedFrustumProjection(state: CameraFrustumState): mat4 {
+    const m = mat4.create();
+    if (state.frustumProjection === 'orthographic') {
+        const w = state.frustumWidth / 2, h = state.frustumHeight / 2;
+        mat4.ortho(m, -w, w, -h, h, -2, -state.frustumFar);
+    } else {
+        mat4.perspective(m, state.frustumFovy * Math.PI / 180, state.frustumAspect, -2, -state.frustumFar);
+    }
+    return m;
+}
+
+// The frustum is built backwards from the projection, so edits that leave it without an inverse can't be
+// drawn, and the frustum is drawn without them instead.
+function isInvertible(m: mat4): boolean {
+    return Math.abs(mat4.determinant(m)) > 1e-6;
+}
+
+// With the edits made in the matrix panel.
+function computeFrustumProjection(state: CameraFrustumState): mat4 {
+    const projection = computeUneditedFrustumProjection(state);
+    const edited = applyProjectionEdits(mat4.create(), projection, state);
+    return isInvertible(edited) ? edited : projection;
+}
+
+function computeFrustumAspect(state: CameraFrustumState): number {
+    return state.frustumProjection === 'orthographic' ? state.frustumWidth / state.frustumHeight : state.frustumAspect;
+}
+
+// The frustum's camera sits at the origin, looking down +Z: a body, with a lens on the front.
+const cameraParts = [
+    { center: vec3.fromValues(0, 0, -1.8), size: vec3.fromValues(3.2, 2.2, 2.4), color: vec4.fromValues(0.35, 0.35, 0.4, 1) },
+    { center: vec3.fromValues(0, 0, -0.2), size: vec3.fromValues(1.4, 1.4, 0.8), color: vec4.fromValues(0.2, 0.2, 0.2, 1) },
+].map((part) => ({ ... part, mesh: createBoxMesh(part.center, part.size) }));
+
+// Takes a point in the NDC cube to where it is in the frustum. The projection above looks down -Z with
+// negative near and far distances, and is flipped to look down +Z.
+function computeFrustumWorldFromNDC(state: CameraFrustumState): mat4 {
+    const worldFromNDC = mat4.invert(mat4.create(), computeFrustumProjection(state))!;
+    worldFromNDC[0] *= -1;
+    worldFromNDC[5] *= -1;
+    return worldFromNDC;
+}
+
+// Takes a point in world space to the frustum's clip space. This is worked out backwards from the
+// frustum's corners, so w can come out negative inside the frustum, and scaling the whole matrix by -1
+// fixes that without moving any projected point. Which sign it comes out with is the sign of w for the
+// center of the NDC cube, taken into the frustum.
+function computeFrustumClipFromWorld(state: CameraFrustumState): mat4 {
+    const worldFromNDC = computeFrustumWorldFromNDC(state);
+    const clipFromWorld = mat4.invert(mat4.create(), worldFromNDC)!;
+    return worldFromNDC[15] < 0 ? mat4.multiplyScalar(clipFromWorld, clipFromWorld, -1) : clipFromWorld;
+}
+
+// Where a point in the frustum is as the perspective divide squashes the frustum into the NDC cube, which
+// is scaled up to be seen, and stretched to the frustum's aspect ratio.
+function computeCubeLerpTransform(state: CameraFrustumState, cubeLerp: number): (worldPosition: ReadonlyVec3) => vec3 {
+    const clipFromWorld = computeFrustumClipFromWorld(state);
+    const cubeScale = vec3.fromValues(5 * computeFrustumAspect(state), 5, 5);
+    return (worldPosition) => {
+        const ndc = vec3.transformMat4(vec3.create(), worldPosition, clipFromWorld);
+        const cubeCoords = vec3.mul(ndc, ndc, cubeScale);
+        return vec3.lerp(cubeCoords, worldPosition, cubeCoords, cubeLerp);
+    };
+}
+
+interface TestObject {
+    mesh: Mesh;
+    center: vec3;
+    color: vec4;
+}
+
+// Things to look at inside the frustum. They're split into small triangles, so that they still look right
+// when they're warped along with the frustum.
+const testObjects: TestObject[] = [
+    { mesh: createBoxMesh(vec3.create(), vec3.fromValues(3, 3, 3), 6), center: vec3.fromValues(-3, -1, 7), color: vec4.fromValues(0.9, 0.45, 0.3, 1) },
+    { mesh: createSphereMesh(2, 12, 24), center: vec3.fromValues(3, 1, 10), color: vec4.fromValues(0.35, 0.7, 0.4, 1) },
+    { mesh: createBoxMesh(vec3.create(), vec3.fromValues(2, 4, 2), 6), center: vec3.fromValues(0.5, -1, 13), color: vec4.fromValues(0.4, 0.5, 0.9, 1) },
+];
+
+function drawTestObjects(ctx: DemoContext, state: CameraFrustumState, cubeLerp: number): void {
+    const transform = computeCubeLerpTransform(state, cubeLerp);
+    for (const object of testObjects)
+        ctx.view3D.drawMeshSolid3D(object.mesh, object.color, (v) => transform(vec3.add(vec3.create(), v, object.center)));
+}
+
+// Along with other solid geometry, the camera is rasterized too, so that it's depth tested against it. On
+// its own it's drawn as vector polygons instead, the part farther away first, which keeps exported
+// figures all vector.
+function drawFrustumCamera(ctx: DemoContext, solid: boolean): void {
+    const view = ctx.view3D;
+    if (solid) {
+        for (const part of cameraParts)
+            view.drawMeshSolid3D(part.mesh, part.color);
+        return;
+    }
+
+    const parts = [... cameraParts].sort((a, b) => vec3.distance(view.eye, b.center) - vec3.distance(view.eye, a.center));
+    for (const part of parts)
+        view.drawBoxFill3D(part.center, part.size, part.color);
+}
+
+// Also draws any extra solid geometry, so that it's depth tested against the camera.
+function drawCameraFrustum(ctx: DemoContext, state: CameraFrustumState, cubeLerp = state.frustumCubeLerp, drawSolid?: () => void, showObjects = state.frustumShowObjects): void {
+    const view = ctx.view3D;
+    beginFrame3D(ctx, state);
+
+    view.drawGridPlane3D(vec3.fromValues(0, 0, 0), vec3.fromValues(1, 0, 0), vec3.fromValues(0, 0, 1), 100, 10, '#ccc', 3);
+
+    // Construct frustum.
+    const im = computeFrustumWorldFromNDC(state);
+    const aspect = computeFrustumAspect(state);
+
+    // Extract corners.
+    const corner = (x: number, y: number, z: number): vec3 => {
+        const v = vec3.fromValues(x, y, z);
+        vec3.transformMat4(v, v, im);
+        const cubeScale = 5;
+        const cubeCoords = vec3.fromValues(x * cubeScale * aspect, y * cubeScale, z * cubeScale);
+        vec3.lerp(v, v, cubeCoords, cubeLerp);
+        return v;
+    };
+
+    const n00 = corner(-1, -1, -1);
+    const n10 = corner(1, -1, -1);
+    const n01 = corner(-1, 1, -1);
+    const n11 = corner(1, 1, -1);
+
+    const f00 = corner(-1, -1, 1);
+    const f10 = corner(1, -1, 1);
+    const f01 = corner(-1, 1, 1);
+    const f11 = corner(1, 1, 1);
+
+    // The camera the frustum belongs to, and the near plane, which fades in with the perspective divide.
+    if (showObjects || drawSolid !== undefined) {
+        view.beginSolid();
+        drawFrustumCamera(ctx, true);
+        if (showObjects)
+            drawTestObjects(ctx, state, cubeLerp);
+        if (drawSolid !== undefined)
+            drawSolid();
+        view.endSolid();
+    } else {
+        drawFrustumCamera(ctx, false);
+    }
+
+    const quadAlpha = cubeLerp;
+    const quadColor = `rgba(128, 200, 240, ${quadAlpha})`;
+    if (quadAlpha > 0)
+        view.drawQuadFill3D(n00, n10, n11, n01, quadColor);
+
+    // Draw frustum.
+    const frustumColor = 'black', frustumLineWidth = 4;
+    ctx.canvas.backend.pushGroup('frustum');
+    view.drawLine3D(n00, n10, frustumColor, frustumLineWidth);
+    view.drawLine3D(n10, n11, frustumColor, frustumLineWidth);
+    view.drawLine3D(n11, n01, frustumColor, frustumLineWidth);
+    view.drawLine3D(n01, n00, frustumColor, frustumLineWidth);
+
+    view.drawLine3D(f00, f10, frustumColor, frustumLineWidth);
+    view.drawLine3D(f10, f11, frustumColor, frustumLineWidth);
+    view.drawLine3D(f11, f01, frustumColor, frustumLineWidth);
+    view.drawLine3D(f01, f00, frustumColor, frustumLineWidth);
+
+    view.drawLine3D(n00, f00, frustumColor, frustumLineWidth);
+    view.drawLine3D(n10, f10, frustumColor, frustumLineWidth);
+    view.drawLine3D(n11, f11, frustumColor, frustumLineWidth);
+    view.drawLine3D(n01, f01, frustumColor, frustumLineWidth);
+    ctx.canvas.backend.popGroup();
+}
+
+function drawFrustumSliders(ctx: DemoContext, state: CameraFrustumState, showPerspectiveDivide = true): void {
+    const canvas = ctx.canvas;
+    ctx.view2D.beginFrame(canvas);
+    const canvasPosition = ctx.view2D.transformWorldToCanvas(vec2.fromValues(0.0, -0.75));
+
+    canvas.fillRect(0, canvasPosition[1] - 50, canvas.width, canvas.height, 'rgba(255, 255, 255, 0.7)');
+
+    // Rows are spaced in world units, so the sliders keep their place as the window is resized.
+    const first = ctx.view2D.transformWorldToCanvas(vec2.fromValues(0.0, -0.7));
+    const second = ctx.view2D.transformWorldToCanvas(vec2.fromValues(0.0, -0.78));
+    const ui = ctx.ui;
+    ui.beginColumn(first[0], first[1], second[1] - first[1]);
+    const orthographic = state.frustumProjection === 'orthographic';
+    if (orthographic) {
+        state.frustumWidth = ui.slider('Width', state.frustumWidth, { min: 1, max: 30 });
+        state.frustumHeight = ui.slider('Height', state.frustumHeight, { min: 1, max: 30 });
+    } else {
+        state.frustumFovy = ui.slider('Field of View', state.frustumFovy, { min: 15, max: 180, step: 1 });
+        state.frustumAspect = ui.slider('Aspect Ratio', state.frustumAspect, { min: 0.1, max: 3 });
+    }
+    state.frustumFar = ui.slider('Far Plane', state.frustumFar, { min: 0.1, max: 100, step: 1 });
+    if (showPerspectiveDivide)
+        state.frustumCubeLerp = ui.slider('Perspective Divide', state.frustumCubeLerp, { min: 0.0, max: 1.0 });
+    ui.endColumn();
+
+    const perspectiveDivide = showPerspectiveDivide ? `, perspective divide ${state.frustumCubeLerp.toFixed(2)}` : '';
+    const projection = orthographic
+        ? `Orthographic, width ${state.frustumWidth.toFixed(2)}, height ${state.frustumHeight.toFixed(2)}`
+        : `Field of view ${state.frustumFovy.toFixed(0)} degrees, aspect ratio ${state.frustumAspect.toFixed(2)}`;
+    ctx.announce(`${projection}, far plane ${state.frustumFar.toFixed(2)}${perspectiveDivide}`);
+}
+
+// Goes in a column of its own, or at the top of the demo's.
+function drawProjectionRadio(ctx: DemoContext, state: CameraFrustumState): void {
+    state.frustumProjection = ctx.ui.radio('Projection', state.frustumProjection as FrustumProjection, [
+        { value: 'perspective', label: 'Perspective' },
+        { value: 'orthographic', label: 'Orthographic' },
+    ]);
+}
+
+function drawFrustumWidgets(ctx: DemoContext, state: CameraFrustumState, showResetMatrix = false): void {
+    drawFrustumSliders(ctx, state);
+
+    const canvas = ctx.canvas, ui = ctx.ui;
+    ui.beginColumn(canvas.getSize(200), canvas.getSize(50));
+    drawProjectionRadio(ctx, state);
+    state.frustumShowObjects = ui.toggle('Test Objects', state.frustumShowObjects);
+    if (showResetMatrix)
+        drawResetMatrixButton(ctx, state);
+    drawCameraModeRadio(ctx, state);
+    ui.endColumn();
+}
+
+// The cells can be dragged sideways to edit them. gl-matrix keeps matrices column by column, so row r,
+// column c is m[c*4 + r].
+function drawProjectionMatrix(ctx: DemoContext, state: CameraFrustumState): void {
+    const canvas = ctx.canvas;
+    const projection = computeUneditedFrustumProjection(state);
+    const cellId = (r: number, c: number) => `Row ${r + 1} Column ${c + 1}`;
+    const hotCells = new Set<string>();
+    const buildFormula = (): Formula => {
+        const m = applyProjectionEdits(mat4.create(), projection, state);
+        const rows = [0, 1, 2, 3].map((r) => [0, 1, 2, 3].map((c): Formula => {
+            const n = m[c*4 + r];
+            const color = isCellEdited(state, r, c) ? editedCellColor : n !== 0 || hotCells.has(cellId(r, c)) ? '#333' : '#aaa';
+            return marked(cellId(r, c), colored(color, n.toFixed(2)));
+        }));
+        return [variable('P'), ' = ', matrix(rows)];
+    };
+
+    const mx = canvas.width - canvas.getSize(500), my = canvas.getSize(100);
+    const padding = canvas.getSize(30);
+
+    // The handles go where the cells are, and can change them, so the formula is laid out again to draw it.
+    const cells = locateFormulaMarks(canvas, buildFormula(), mx + padding, my + padding, 24, 'left', 'top');
+    for (let r = 0; r < 4; r++) {
+        for (let c = 0; c < 4; c++) {
+            const cell = cells.get(cellId(r, c))!;
+            // A little wider than the text, so that the cells meet.
+            const handle = updateMatrixCellHandle(ctx, state, projection, r, c, { x: cell.x - padding / 2, y: cell.y, width: cell.width + padding, height: cell.height });
+            if (handle.hot || handle.active)
+                hotCells.add(cellId(r, c));
+        }
+    }
+
+    const formula = buildFormula();
+    const metrics = measureFormula(canvas, formula);
+    const width = metrics.width + padding * 2, height = metrics.ascent + metrics.descent + padding * 2;
+    canvas.fillRect(mx, my, width, height, 'rgba(255, 255, 255, 0.7)');
+    canvas.strokeRect(mx, my, width, height, '#333333CC', 4);
+
+    canvas.drawText('Projection Matrix', mx, my - canvas.getSize(20), '#333', 24, 'left');
+    for (const id of hotCells) {
+        const cell = cells.get(id)!;
+        canvas.fillRect(cell.x - padding / 2, cell.y, cell.width + padding, cell.height, 'rgba(255, 136, 0, 0.3)');
+    }
+    drawFormula(canvas, formula, mx + padding, my + padding, '#333', 24, 'left', 'top');
+
+    if (!isProjectionEdited(state))
+        return;
+    const edited = applyProjectionEdits(mat4.create(), projection, state);
+    const note = isInvertible(edited) ? 'Edited cells are red. Reset Matrix puts them back' : 'The edited matrix has no inverse, so the frustum is drawn without the edits';
+    canvas.drawText(note, mx, my + height + canvas.getSize(40), '#333', 20, 'left');
+}
+
+// A camera frustum seen from the outside, which can be squashed into the NDC cube.
+export const cameraFrustumDemo: Demo<CameraFrustumState> = {
+    id: 'CameraFrustum',
+    title: 'Camera Frustum',
+    stateDefault: cameraFrustumStateDefault,
+    stateRules: cameraFrustumStateRules,
+
+    update(ctx, state) {
+        drawCameraFrustum(ctx, state);
+    },
+
+    widgets(ctx, state) {
+        drawFrustumWidgets(ctx, state);
+    },
+};
+
+// The same, with the projection matrix that builds the frustum.
+export const cameraFrustumProjectionMatrixDemo: Demo<CameraFrustumState> = {
+    id: 'CameraFrustumProjectionMatrix',
+    title: 'Projection Matrix',
+    stateDefault: cameraFrustumStateDefault,
+    stateRules: cameraFrustumStateRules,
+
+    update(ctx, state) {
+        drawCameraFrustum(ctx, state);
+    },
+
+    widgets(ctx, state) {
+        drawFrustumWidgets(ctx, state, true);
+        drawProjectionMatrix(ctx, state);
+    },
+};
+
+export interface CameraFrustumClippingState extends CameraFrustumState {
+    frustumWallAngle: number;
+    frustumClipPlaneCount: number;
+}
+
+const cameraFrustumClippingStateDefault: CameraFrustumClippingState = {
+    ... cameraFrustumStateDefault,
+    frustumWallAngle: 60,
+    frustumClipPlaneCount: 6,
+};
+
+const cameraFrustumClippingStateRules: StateRules<CameraFrustumClippingState> = {
+    ... cameraFrustumStateRules,
+    frustumWallAngle: { min: -90, max: 90 },
+    frustumClipPlaneCount: { integer: true, min: 0, max: 6 },
+};
+
+// A wall standing in the frustum, turned about the vertical axis, and big enough to stick out of every side.
+function computeWallCorners(state: CameraFrustumClippingState): vec3[] {
+    const angle = state.frustumWallAngle * Math.PI / 180;
+    const center = vec3.fromValues(0, 0, 8);
+    const across = vec3.fromValues(Math.cos(angle) * 20, 0, Math.sin(angle) * 20);
+    const up = vec3.fromValues(0, 8, 0);
+    return [[-1, -1], [1, -1], [1, 1], [-1, 1]].map(([x, y]) => {
+        const v = vec3.scaleAndAdd(vec3.create(), center, across, x);
+        return vec3.scaleAndAdd(v, v, up, y);
+    });
+}
+
+interface WallClipping {
+    // What's left of the wall, in world space.
+    polygon: vec3[];
+    // The number of vertices before clipping, then after each plane.
+    vertexCounts: number[];
+}
+
+// Clips the wall in the frustum's clip space one plane at a time, like the GPU does, and brings what's left
+// back into world space to draw it.
+function clipWall(state: CameraFrustumClippingState): WallClipping {
+    const clipFromWorld = computeFrustumClipFromWorld(state);
+    const worldFromClip = mat4.invert(mat4.create(), clipFromWorld)!;
+
+    let polygon = computeWallCorners(state).map((v) => vec4.transformMat4(vec4.create(), vec4.fromValues(v[0], v[1], v[2], 1), clipFromWorld));
+    const vertexCounts = [polygon.length];
+    for (const plane of frustumClipPlanes.slice(0, state.frustumClipPlaneCount)) {
+        polygon = clipPolygon(polygon, [plane]);
+        vertexCounts.push(polygon.length);
+    }
+
+    return {
+        polygon: polygon.map((v) => {
+            const p = vec4.transformMat4(vec4.create(), v, worldFromClip);
+            return vec3.fromValues(p[0] / p[3], p[1] / p[3], p[2] / p[3]);
+        }),
+        vertexCounts,
+    };
+}
+
+function drawClippedWall(ctx: DemoContext, state: CameraFrustumClippingState): void {
+    const view = ctx.view3D;
+    const corners = computeWallCorners(state);
+    const { polygon } = clipWall(state);
+
+    const angle = state.frustumWallAngle * Math.PI / 180;
+    const normal = vec3.fromValues(-Math.sin(angle), 0, Math.cos(angle));
+    drawCameraFrustum(ctx, state, 0, () => {
+        if (polygon.length > 0)
+            view.drawMeshSolid3D(createPolygonMesh(polygon, normal), [0.5, 0.78, 0.94, 1]);
+        // What was clipped away, behind what's left.
+        view.drawQuadSolid3D(corners[0], corners[1], corners[2], corners[3], [0.5, 0.5, 0.5, 0.2]);
+    }, false);
+
+    // The outline of what's left, with its vertices, including the new ones made where it crossed a plane.
+    ctx.canvas.backend.pushGroup('clipped');
+    for (let i = 0; i < polygon.length; i++)
+        view.drawLine3D(polygon[i], polygon[(i + 1) % polygon.length], '#3377aa', 3);
+    for (const v of polygon)
+        view.drawPoint3D(v, '#ff8800', 12);
+    ctx.canvas.backend.popGroup();
+}
+
+function drawClippingWidgets(ctx: DemoContext, state: CameraFrustumClippingState): void {
+    drawFrustumSliders(ctx, state, false);
+
+    const canvas = ctx.canvas, ui = ctx.ui;
+    ui.beginColumn(canvas.getSize(200), canvas.getSize(50));
+    drawProjectionRadio(ctx, state);
+    state.frustumWallAngle = ui.slider('Wall Angle', state.frustumWallAngle, { min: -90, max: 90, step: 1, format: (v) => `${v.toFixed(0)}°` });
+    state.frustumClipPlaneCount = ui.stepper('Clip Planes', state.frustumClipPlaneCount, { step: 1, min: 0, max: 6 });
+    drawCameraModeRadio(ctx, state);
+    ui.space();
+
+    const { vertexCounts } = clipWall(state);
+    const vertices = (n: number) => n === 1 ? '1 vertex' : `${n} vertices`;
+    ui.readout('Wall', vertices(vertexCounts[0]));
+    for (let i = 1; i < vertexCounts.length; i++)
+        ui.readout(frustumClipPlanes[i - 1].name, vertices(vertexCounts[i]));
+    ui.endColumn();
+
+    const last = vertexCounts[vertexCounts.length - 1];
+    ctx.announce(`Wall at ${state.frustumWallAngle.toFixed(0)} degrees, clipped by ${state.frustumClipPlaneCount} planes, ${vertices(last)} left`);
+}
+
+// A wall clipped by the frustum's planes one at a time, with the parts that are clipped away ghosted.
+export const cameraFrustumClippingDemo: Demo<CameraFrustumClippingState> = {
+    id: 'CameraFrustumClipping',
+    title: 'Clipping',
+    stateDefault: cameraFrustumClippingStateDefault,
+    stateRules: cameraFrustumClippingStateRules,
+
+    update(ctx, state) {
+        drawClippedWall(ctx, state);
+    },
+
+    widgets(ctx, state) {
+        drawClippingWidgets(ctx, state);
+    },
+};
@@ -0,0 +1,101 @@
+import { vec2 } from 'gl-matrix';
+import { drawChart } from '../chart';
+import { Demo, DemoContext } from '../demo';
+import { LightRayCount, Lighting2DFrame, Lighting2DState, beginLighting2D, countDirectionalLightRayHits, drawDirectionalLightRays, drawLightRayCountReadout, drawLightRayStepper, drawSurface, drawSurfaceNormal, lighting2DStateDefault, lighting2DStateRules } from './lighting2D';
+
+const cosineColor = '#666';
+const sampledColor = '#ffa500';
+
+// The number of ray counts that go into the convergence plot, however far its axis goes.
+const convergenceSampleCount = 100;
+
+// The cosine law, with the ratio of rays that hit the surface marked at the current angle.
+function drawCosinePlot(ctx: DemoContext, cos: number, ratio: number, y: number): void {
+    const canvas = ctx.canvas;
+    const w = canvas.getSize(360), h = canvas.getSize(220);
+    const angle = Math.acos(Math.min(cos, 1)) * 180 / Math.PI;
+
+    drawChart(canvas, {
+        x: canvas.width - w - canvas.getSize(40), y, width: w, height: h, title: 'Cosine Law',
+        xAxis: { min: 0, max: 90, label: 'θ', ticks: [0, 30, 60, 90], format: (v) => `${v}°` },
+        yAxis: { min: 0, max: 1, label: 'Ratio', ticks: [0, 0.5, 1] },
+        curves: [{ label: 'cos θ', color: cosineColor, f: (v) => Math.cos(v * Math.PI / 180) }],
+        markers: [{ x: angle, y: ratio, color: sampledColor, label: 'Rays hit / total' }],
+        cursorX: angle,
+    });
+}
+
+// The ratio of rays that hit the surface for every number of rays up to a bit past the current one,
+// closing in on the cosine as the rays get closer together.
+function drawConvergencePlot(ctx: DemoContext, state: Lighting2DState, frame: Lighting2DFrame, cos: number, ratio: number, y: number): void {
+    const canvas = ctx.canvas;
+    const w = canvas.getSize(360), h = canvas.getSize(220);
+    const maxRayNum = Math.max(Math.ceil(state.lightRayNum / 100) * 100, 100);
+
+    const points: vec2[] = [];
+    for (let i = 0; i <= convergenceSampleCount; i++) {
+        const lightRayNum = Math.max(Math.round(i / convergenceSampleCount * maxRayNum), 2);
+        points.push(vec2.fromValues(lightRayNum, countDirectionalLightRayHits(state, frame, lightRayNum) / (lightRayNum + 1)));
+    }
+
+    drawChart(canvas, {
+        x: canvas.width - w - canvas.getSize(40), y, width: w, height: h, title: 'Convergence',
+        xAxis: { min: 0, max: maxRayNum, label: 'Light Rays', ticks: [0, 0.25, 0.5, 0.75, 1].map((t) => t * maxRayNum) },
+        yAxis: { min: 0, max: 1, label: 'Ratio', ticks: [0, 0.5, 1] },
+        curves: [
+            { label: 'cos θ', color: cosineColor, f: () => cos },
+            { label: 'Rays hit / total', color: sampledColor, points, lineWidth: 2 },
+        ],
+        markers: [{ x: state.lightRayNum, y: ratio, color: sampledColor }],
+        cursorX: state.lightRayNum,
+    });
+}
+
+function drawCosinePlots(ctx: DemoContext, state: Lighting2DState, frame: Lighting2DFrame, count: LightRayCount): void {
+    const canvas = ctx.canvas;
+    const cos = Math.abs(vec2.dot(state.surfaceNormal, count.lightDir));
+    const ratio = count.lightRayHitNum / count.lightRayNum;
+    drawCosinePlot(ctx, cos, ratio, canvas.getSize(80));
+    drawConvergencePlot(ctx, state, frame, cos, ratio, canvas.getSize(380));
+}
+
+// A surface lit by a directional light. Counting the rays that hit it shows the cosine law.
+export const dotProductDemo: Demo<Lighting2DState> = {
+    id: 'DotProduct',
+    title: 'Dot Product',
+    stateDefault: lighting2DStateDefault,
+    stateRules: lighting2DStateRules,
+
+    update(ctx, state) {
+        const frame = beginLighting2D(ctx, state, { showSurface: true, showSurfaceNormal: false, showLightRayDir: true, showLightRayPos: false });
+        const count = drawDirectionalLightRays(ctx, state, frame, false);
+        drawSurface(ctx, frame);
+        drawCosinePlots(ctx, state, frame, count);
+        drawLightRayCountReadout(ctx, state, count);
+    },
+
+    widgets(ctx, state) {
+        drawLightRayStepper(ctx, state);
+    },
+};
+
+// The same, with the surface normal shown, and rays hitting the back of the surface grayed out.
+export const dotProductNormalDemo: Demo<Lighting2DState> = {
+    id: 'DotProductNormal',
+    title: 'Dot Product with Normal',
+    stateDefault: lighting2DStateDefault,
+    stateRules: lighting2DStateRules,
+
+    update(ctx, state) {
+        const frame = beginLighting2D(ctx, state, { showSurface: true, showSurfaceNormal: true, showLightRayDir: true, showLightRayPos: false });
+        const count = drawDirectionalLightRays(ctx, state, frame, true);
+        drawSurfaceNormal(ctx, state, frame);
+        drawSurface(ctx, frame);
+        drawCosinePlots(ctx, state, frame, count);
+        drawLightRayCountReadout(ctx, state, count);
+    },
+
+    widgets(ctx, state) {
+        drawLightRayStepper(ctx, state);
+    },
+};
@@ -0,0 +1,148 @@
+
+import { vec2, vec3 } from 'gl-matrix';
+import { encodeColor, encodeSRGB, parseColor, toCSSColor, toHexColor } from '../color';
+import { Demo, DemoContext } from '../demo';
+import { PixelBuffer } from '../render';
+import { StateRules } from '../state';
+import { uiStyle } from '../ui';
+
+// Why lighting is done in linear RGB: the same gradient blended by its sRGB values, and by the amount of
+// light, next to a dither that mixes the two ends by turning pixels fully on or off. From a distance the
+// dither looks like the linear blend, because that's what the eye adds up.
+
+export interface GammaState {
+    gammaGradient: string;
+    gammaPosition: number;
+}
+
+interface GammaGradient {
+    value: string;
+    label: string;
+    a: string;
+    b: string;
+}
+
+const gammaGradients: readonly GammaGradient[] = [
+    { value: 'gray', label: 'Black to White', a: '#000000', b: '#ffffff' },
+    { value: 'redGreen', label: 'Red to Green', a: '#ff0000', b: '#00ff00' },
+];
+
+const gammaStateDefault: GammaState = {
+    gammaGradient: 'gray',
+    gammaPosition: 0.5,
+};
+
+const gammaStateRules: StateRules<GammaState> = {
+    gammaGradient: { values: () => gammaGradients.map((gradient) => gradient.value) },
+    gammaPosition: { min: 0, max: 1 },
+};
+
+const gradientMinX = -0.8, gradientMaxX = 0.8;
+const rowHeight = 0.2, rowGap = 0.1;
+const rowLabels = ['Lerp in sRGB', 'Lerp in linear light', 'Dithered'];
+
+// The 4x4 Bayer matrix, as thresholds from 0 to 1.
+const bayer = [0, 8, 2, 10, 12, 4, 14, 6, 3, 11, 1, 9, 15, 7, 13, 5].map((v) => (v + 0.5) / 16);
+
+function findGradient(value: string): GammaGradient {
+    return gammaGradients.find((gradient) => gradient.value === value) ?? gammaGradients[0];
+}
+
+// Draws one row, as an image the size it is on screen, with the color of every pixel from getColor.
+function drawGradientRow(ctx: DemoContext, row: number, getColor: (t: number, x: number, y: number, out: vec3) => void): void {
+    const canvas = ctx.canvas, view = ctx.view2D;
+    const top = 0.8 - row * (rowHeight + rowGap);
+    const topLeft = view.transformWorldToCanvas(vec2.fromValues(gradientMinX, top));
+    const bottomRight = view.transformWorldToCanvas(vec2.fromValues(gradientMaxX, top - rowHeight));
+    const x = Math.round(topLeft[0]), y = Math.round(topLeft[1]);
+    const width = Math.max(Math.round(bottomRight[0]) - x, 1), height = Math.max(Math.round(bottomRight[1]) - y, 1);
+
+    const image: PixelBuffer = { width, height, data: new Uint8ClampedArray(width * height * 4) };
+    const color = vec3.create();
+    for (let py = 0; py < height; py++) {
+        for (let px = 0; px < width; px++) {
+            getColor((px + 0.5) / width, px, py, color);
+            const i = (py * width + px) * 4;
+            image.data[i + 0] = color[0] * 255;
+            image.data[i + 1] = color[1] * 255;
+            image.data[i + 2] = color[2] * 255;
+            image.data[i + 3] = 255;
+        }
+    }
+    canvas.drawImage(image, x, y, width, height);
+    canvas.drawText(rowLabels[row], x, y - canvas.getSize(12), '#333', 24);
+}
+
+function drawGamma(ctx: DemoContext, state: GammaState): void {
+    const canvas = ctx.canvas, view = ctx.view2D;
+    view.beginFrame(canvas);
+
+    const gradient = findGradient(state.gammaGradient);
+    // The ends as linear light, and as sRGB values.
+    const linearA = parseColor(gradient.a), linearB = parseColor(gradient.b);
+    const srgbA = encodeColor(vec3.create(), linearA), srgbB = encodeColor(vec3.create(), linearB);
+
+    // The position along the gradient can be dragged anywhere over it.
+    const gradientWidth = gradientMaxX - gradientMinX;
+    const markerX = gradientMinX + state.gammaPosition * gradientWidth;
+    const marker = ctx.handles.handle({
+        id: 'Gradient Marker', space: view, shapes: [{ type: 'segment', a: [markerX, 0.85], b: [markerX, -0.15] }], hitRadius: 0.03,
+        behavior: { type: 'slider', value: state.gammaPosition, onChange: (v) => { state.gammaPosition = v; }, axis: [1 / gradientWidth, 0], min: 0, max: 1, snap: 0.05 },
+    });
+
+    drawGradientRow(ctx, 0, (t, x, y, out) => { vec3.lerp(out, srgbA, srgbB, t); });
+    drawGradientRow(ctx, 1, (t, x, y, out) => { encodeColor(out, vec3.lerp(out, linearA, linearB, t)); });
+    drawGradientRow(ctx, 2, (t, x, y, out) => { vec3.copy(out, t > bayer[(y % 4) * 4 + (x % 4)] ? srgbB : srgbA); });
+
+    const lineColor = marker.focused ? uiStyle.focusColor : marker.hot || marker.active ? '#333' : '#999';
+    canvas.drawLine(view.transformWorldToCanvas(vec2.fromValues(markerX, 0.85)), view.transformWorldToCanvas(vec2.fromValues(markerX, -0.15)), lineColor, 3);
+
+    drawGammaReadout(ctx, state, gradient);
+}
+
+function drawGammaReadout(ctx: DemoContext, state: GammaState, gradient: GammaGradient): void {
+    const canvas = ctx.canvas;
+    const canvasPosition = ctx.view2D.transformWorldToCanvas(vec2.fromValues(0.0, -0.45));
+
+    const t = state.gammaPosition;
+    const linearA = parseColor(gradient.a), linearB = parseColor(gradient.b);
+    const srgbColor = toHexColor(vec3.lerp(vec3.create(), encodeColor(vec3.create(), linearA), encodeColor(vec3.create(), linearB), t));
+    const linearColor = toCSSColor(vec3.lerp(vec3.create(), linearA, linearB, t));
+
+    // The two blends side by side.
+    const size = canvas.getSize(80);
+    canvas.fillRect(canvasPosition[0] - size - canvas.getSize(10), canvasPosition[1] - size, size, size, srgbColor);
+    canvas.fillRect(canvasPosition[0] + canvas.getSize(10), canvasPosition[1] - size, size, size, linearColor);
+    canvasPosition[1] += canvas.getSize(40);
+
+    canvas.drawText(`t = ${t.toFixed(2)}  Lerp in sRGB: ${srgbColor}  Lerp in linear light: ${linearColor}`, canvasPosition[0], canvasPosition[1], '#333', 24, 'center');
+    canvasPosition[1] += canvas.getSize(40);
+    const encoded = encodeSRGB(t);
+    canvas.drawText(`A linear ${t.toFixed(2)} is stored in sRGB as ${encoded.toFixed(4)}, or ${Math.round(encoded * 255)} of 255`, canvasPosition[0], canvasPosition[1], '#333', 24, 'center');
+
+    ctx.announce(`At ${t.toFixed(2)}, lerp in sRGB gives ${srgbColor}, lerp in linear light gives ${linearColor}. A linear ${t.toFixed(2)} is stored in sRGB as ${encoded.toFixed(4)}`);
+}
+
+function drawGammaWidgets(ctx: DemoContext, state: GammaState): void {
+    const canvas = ctx.canvas, ui = ctx.ui;
+    ui.beginColumn(canvas.getSize(200), canvas.getSize(50));
+    state.gammaGradient = ui.radio('Gradient', state.gammaGradient, gammaGradients);
+    state.gammaPosition = ui.slider('Position', state.gammaPosition, { min: 0, max: 1 });
+    ui.endColumn();
+}
+
+// Blending colors by their sRGB values, against blending the light they stand for.
+export const gammaDemo: Demo<GammaState> = {
+    id: 'Gamma',
+    title: 'Gamma',
+    stateDefault: gammaStateDefault,
+    stateRules: gammaStateRules,
+
+    update(ctx, state) {
+        drawGamma(ctx, state);
+    },
+
+    widgets(ctx, state) {
+        drawGammaWidgets(ctx, state);
+    },
+};
@@ -0,0 +1,33 @@
+
+import { registerDemo } from '../demo';
+import { cameraFrustumClippingDemo, cameraFrustumDemo, cameraFrustumProjectionMatrixDemo } from './cameraFrustum';
+import { dotProductDemo, dotProductNormalDemo } from './dotProduct';
+import { gammaDemo } from './gamma';
+import { lambertSphereDemo } from './lambertSphere';
+import { pointLightDemo, pointLightFalloffDemo, pointLightPixelDemo } from './pointLight';
+import { rasterizationDemo } from './rasterization';
+import { areaLightDemo, shadowsDemo } from './shadows';
+import { specularDemo, specularLobeDemo } from './specular';
+import { surfaceNormalDemo } from './surfaceNormal';
+import { transformPipelineDemo } from './transformPipeline';
+
+// The built-in demos, in the order of the talk.
+export function registerBuiltinDemos(): void {
+    registerDemo(dotProductDemo);
+    registerDemo(dotProductNormalDemo);
+    registerDemo(surfaceNormalDemo);
+    registerDemo(cameraFrustumDemo);
+    registerDemo(cameraFrustumProjectionMatrixDemo);
+    registerDemo(pointLightDemo);
+    registerDemo(pointLightPixelDemo);
+    registerDemo(rasterizationDemo);
+    registerDemo(cameraFrustumClippingDemo);
+    registerDemo(lambertSphereDemo);
+    registerDemo(pointLightFalloffDemo);
+    registerDemo(specularDemo);
+    registerDemo(specularLobeDemo);
+    registerDemo(shadowsDemo);
+    registerDemo(areaLightDemo);
+    registerDemo(gammaDemo);
+    registerDemo(transformPipelineDemo);
+}
@@ -0,0 +1,253 @@
+
+import { ReadonlyVec3, vec2, vec3, vec4 } from 'gl-matrix';
+import { encodeColor, parseColor } from '../color';
+import { Demo, DemoContext } from '../demo';
+import { HandleState } from '../handles';
+import { createSphereMesh } from '../mesh';
+import { StateRules } from '../state';
+import { uiStyle } from '../ui';
+import { OrbitCameraState, beginFrame3D, drawCameraModeRadio, orbitCameraStateDefault, orbitCameraStateRules } from './orbitCamera';
+
+// The 2D lighting demos, taken to 3D: a sphere lit by one or two lights, each pixel shaded by the cosine
+// between its normal and the direction to the light. Hovering the sphere shows both vectors at that point.
+
+export type LambertLightType = 'point' | 'directional';
+
+export interface LambertSphereState extends OrbitCameraState {
+    lambertLightPos: Float32Array;
+    lambertLight2Pos: Float32Array;
+    lambertLightCount: number;
+    lambertLightType: string;
+    lambertPerPixel: boolean;
+}
+
+const lambertSphereStateDefault: LambertSphereState = {
+    ... orbitCameraStateDefault,
+    lambertLightPos: new Float32Array([10, 45, 50]),
+    lambertLight2Pos: new Float32Array([-50, 0, -10]),
+    lambertLightCount: 1,
+    lambertLightType: 'point',
+    lambertPerPixel: true,
+};
+
+const lambertLightTypes: readonly LambertLightType[] = ['point', 'directional'];
+
+const lambertSphereStateRules: StateRules<LambertSphereState> = {
+    ... orbitCameraStateRules,
+    lambertLightPos: { min: -200, max: 200 },
+    lambertLight2Pos: { min: -200, max: 200 },
+    lambertLightCount: { integer: true, min: 1, max: 2 },
+    lambertLightType: { values: () => lambertLightTypes },
+};
+
+const sphereRadius = 25;
+const sphereMesh = createSphereMesh(sphereRadius);
+const sphereAlbedo = 0.9;
+const ambient = 0.05;
+
+interface LambertLight {
+    position: Float32Array;
+    // Linear RGB for the lighting, and the CSS color for drawing the light itself.
+    color: ReadonlyVec3;
+    cssColor: string;
+}
+
+const lightCSSColors = ['#ff8800', '#3399ff'];
+const lightColors = lightCSSColors.map((cssColor) => parseColor(cssColor));
+
+function getLights(state: LambertSphereState): LambertLight[] {
+    const lights = [
+        { position: state.lambertLightPos, color: lightColors[0], cssColor: lightCSSColors[0] },
+        { position: state.lambertLight2Pos, color: lightColors[1], cssColor: lightCSSColors[1] },
+    ];
+    return lights.slice(0, state.lambertLightCount);
+}
+
+// The direction from a point on the surface towards the light. A directional light is infinitely far away
+// in the direction of its position, so it's the same everywhere.
+function computeLightDirection(state: LambertSphereState, light: LambertLight, position: ReadonlyVec3): vec3 {
+    const l = state.lambertLightType === 'point' ? vec3.sub(vec3.create(), light.position, position) : vec3.clone(light.position);
+    return vec3.normalize(l, l);
+}
+
+// The lighting is done in linear RGB, and the fragment shaders encode the result into sRGB for the screen.
+function shade(state: LambertSphereState, lights: LambertLight[], position: ReadonlyVec3, normal: ReadonlyVec3, out: vec4): void {
+    vec4.set(out, ambient, ambient, ambient, 1);
+    for (const light of lights) {
+        const cos = Math.max(vec3.dot(normal, computeLightDirection(state, light, position)), 0);
+        for (let i = 0; i < 3; i++)
+            out[i] += light.color[i] * cos;
+    }
+    for (let i = 0; i < 3; i++)
+        out[i] *= sphereAlbedo;
+}
+
+function drawSphere(ctx: DemoContext, state: LambertSphereState, lights: LambertLight[]): void {
+    const view = ctx.view3D;
+    const raster = view.raster;
+    const mesh = sphereMesh;
+    view.beginSolid();
+    // The back of the sphere is always hidden by the front, so don't bother drawing it.
+    raster.cullBackFaces = true;
+
+    if (state.lambertPerPixel) {
+        // The position and normal are interpolated, and the lighting is worked out for every pixel.
+        raster.drawIndexed(mesh.positions.length, mesh.indices, (i) => ({
+            clip: view.transformWorld3DToClip(mesh.positions[i]),
+            varyings: [... mesh.positions[i], ... mesh.normals[i]],
+        }), (varyings, out) => {
+            const position = vec3.fromValues(varyings[0], varyings[1], varyings[2]);
+            const normal = vec3.fromValues(varyings[3], varyings[4], varyings[5]);
+            shade(state, lights, position, vec3.normalize(normal, normal), out);
+            encodeColor(out as vec3, out as vec3);
+        });
+    } else {
+        // The lighting is worked out at the vertices, and only the color is interpolated (Gouraud shading),
+        // still in linear RGB.
+        raster.drawIndexed(mesh.positions.length, mesh.indices, (i) => {
+            const color = vec4.create();
+            shade(state, lights, mesh.positions[i], mesh.normals[i], color);
+            return { clip: view.transformWorld3DToClip(mesh.positions[i]), varyings: color };
+        }, (varyings, out) => {
+            vec4.set(out, varyings[0], varyings[1], varyings[2], 1);
+            encodeColor(out as vec3, out as vec3);
+        });
+    }
+
+    raster.cullBackFaces = false;
+    view.endSolid();
+}
+
+// Lights are dragged across the screen, at the depth they're at. Lights behind the camera can't be.
+function updateLightHandles(ctx: DemoContext, lights: LambertLight[]): (HandleState | null)[] {
+    const view = ctx.view3D, canvas = ctx.canvas;
+    return lights.map((light, i) => {
+        const clipPosition = view.transformWorld3DToClip(light.position);
+        if (clipPosition[3] <= 0)
+            return null;
+
+        const canvasPosition = view.transformClipToCanvas(clipPosition);
+        const target = vec2.fromValues(canvasPosition[0], canvasPosition[1]);
+        const handle = ctx.handles.handle({
+            id: `Light ${i + 1}`, shapes: [{ type: 'point', center: vec2.clone(target) }], hitRadius: canvas.getSize(16), priority: 1,
+            behavior: { type: 'position', target, keyStep: canvas.getSize(10) },
+        });
+        if (target[0] !== canvasPosition[0] || target[1] !== canvasPosition[1])
+            light.position.set(view.transformCanvasToWorld3D(target, canvasPosition[2]));
+        return handle;
+    });
+}
+
+function drawLights(ctx: DemoContext, state: LambertSphereState, lights: LambertLight[], handles: (HandleState | null)[]): void {
+    const view = ctx.view3D, canvas = ctx.canvas;
+    lights.forEach((light, i) => {
+        // A directional light only has a direction, which is shown as a line towards the sphere.
+        if (state.lambertLightType === 'directional')
+            view.drawLine3D(light.position, vec3.scale(vec3.create(), light.position, sphereRadius * 1.2 / vec3.length(light.position)), light.cssColor, 2);
+
+        const handle = handles[i];
+        if (handle?.focused)
+            canvas.drawCircle(view.transformClipToCanvas(view.transformWorld3DToClip(light.position)) as vec2, canvas.getSize(56), uiStyle.focusColor, 2);
+        view.drawPoint3D(light.position, light.cssColor, handle?.hot || handle?.active ? 24 : 16);
+    });
+}
+
+// Where the mouse ray first hits the sphere, if it does.
+function pickSphere(ctx: DemoContext): vec3 | null {
+    const view = ctx.view3D;
+    const near = view.transformCanvasToWorld3D(ctx.canvas.mouse, -1);
+    const far = view.transformCanvasToWorld3D(ctx.canvas.mouse, 0);
+    const dir = vec3.normalize(vec3.create(), vec3.sub(vec3.create(), far, near));
+
+    const b = vec3.dot(near, dir);
+    const c = vec3.dot(near, near) - sphereRadius * sphereRadius;
+    const discriminant = b * b - c;
+    if (discriminant < 0)
+        return null;
+
+    const t = -b - Math.sqrt(discriminant);
+    if (t < 0)
+        return null;
+    return vec3.scaleAndAdd(vec3.create(), near, dir, t);
+}
+
+// The normal and light directions at the point under the mouse, and the cosine for each light, like the
+// overlay of the 2D point light pixel demo.
+function drawHoverPoint(ctx: DemoContext, state: LambertSphereState, lights: LambertLight[]): void {
+    const view = ctx.view3D, canvas = ctx.canvas;
+    if (!ctx.interactive || ctx.handles.active !== null || ctx.ui.wantsMouse)
+        return;
+
+    const position = pickSphere(ctx);
+    if (position === null)
+        return;
+
+    const normal = vec3.normalize(vec3.create(), position);
+    const arrowLength = sphereRadius * 0.6;
+    view.drawLine3D(position, vec3.scaleAndAdd(vec3.create(), position, normal, arrowLength), '#333', 3);
+    view.drawPoint3D(vec3.scaleAndAdd(vec3.create(), position, normal, arrowLength), '#333', 8);
+
+    const lines: string[] = [], descriptions: string[] = [];
+    lights.forEach((light, i) => {
+        const l = computeLightDirection(state, light, position);
+        view.drawLine3D(position, vec3.scaleAndAdd(vec3.create(), position, l, arrowLength), light.cssColor, 3);
+
+        const cos = vec3.dot(normal, l);
+        const angle = (Math.acos(cos) * 180 / Math.PI).toFixed(0);
+        // Negative cosines are light hitting the surface from behind, which doesn't light it.
+        const lit = Math.max(cos, 0).toFixed(4);
+        lines.push(`Light ${i + 1}: Angle ${angle}°  Cos ${lit}`);
+        descriptions.push(`Light ${i + 1}: angle ${angle} degrees, cosine ${lit}`);
+    });
+    view.drawPoint3D(position, '#333', 10);
+
+    ctx.view2D.beginFrame(canvas);
+    const canvasPosition = ctx.view2D.transformWorldToCanvas(vec2.fromValues(0.0, -0.75));
+    canvas.fillRect(0, canvasPosition[1] - canvas.getSize(50), canvas.width, canvas.height, 'rgba(255, 255, 255, 0.7)');
+    for (const line of lines) {
+        canvas.drawText(line, canvasPosition[0], canvasPosition[1], '#333', 24, 'center');
+        canvasPosition[1] += canvas.getSize(40);
+    }
+
+    ctx.announce(descriptions.join('. '));
+}
+
+function drawLambertSphere(ctx: DemoContext, state: LambertSphereState): void {
+    beginFrame3D(ctx, state);
+    const lights = getLights(state);
+    const handles = updateLightHandles(ctx, lights);
+
+    ctx.view3D.drawGridPlane3D(vec3.fromValues(0, -sphereRadius, 0), vec3.fromValues(1, 0, 0), vec3.fromValues(0, 0, 1), 100, 10, '#ccc', 3);
+    drawSphere(ctx, state, lights);
+    drawLights(ctx, state, lights, handles);
+    drawHoverPoint(ctx, state, lights);
+}
+
+function drawLambertSphereWidgets(ctx: DemoContext, state: LambertSphereState): void {
+    const canvas = ctx.canvas, ui = ctx.ui;
+    ui.beginColumn(canvas.getSize(200), canvas.getSize(50));
+    state.lambertLightType = ui.radio('Light', state.lambertLightType as LambertLightType, [
+        { value: 'point', label: 'Point' },
+        { value: 'directional', label: 'Directional' },
+    ]);
+    state.lambertLightCount = ui.stepper('Lights', state.lambertLightCount, { step: 1, min: 1, max: 2 });
+    state.lambertPerPixel = ui.toggle('Per Pixel', state.lambertPerPixel);
+    drawCameraModeRadio(ctx, state);
+    ui.endColumn();
+}
+
+// A sphere lit by draggable lights, shaded with the cosine law per vertex or per pixel.
+export const lambertSphereDemo: Demo<LambertSphereState> = {
+    id: 'LambertSphere',
+    title: 'Lambertian Sphere',
+    stateDefault: lambertSphereStateDefault,
+    stateRules: lambertSphereStateRules,
+
+    update(ctx, state) {
+        drawLambertSphere(ctx, state);
+    },
+
+    widgets(ctx, state) {
+        drawLambertSphereWidgets(ctx, state);
+    },
+};
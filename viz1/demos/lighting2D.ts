@@ -0,0 +1,324 @@
+
+import { ReadonlyVec2, vec2 } from 'gl-matrix';
+import { DemoContext } from '../demo';
+import { HandleShape } from '../handles';
+import { StateRules } from '../state';
+import { uiStyle } from '../ui';
+import { TAU, clamp, invlerp, lerp, lineRayIntersect, perpL, saturate } from '../util';
+
+// Shared pieces of the 2D lighting demos: a surface at the origin, lit by a directional light or a point light.
+
+export interface Lighting2DState {
+    surfaceNormal: vec2;
+    lightDir: vec2;
+    lightPos: vec2;
+    lightRayNum: number;
+}
+
+export const lighting2DStateDefault: Lighting2DState = {
+    surfaceNormal: vec2.normalize(vec2.create(), vec2.fromValues(1, 1)),
+    lightDir: vec2.fromValues(-1, 0),
+    lightPos: vec2.fromValues(.75, .75),
+    lightRayNum: 10,
+};
+
+// The wheel, the stepper and loading all keep the number of rays between these.
+const minLightRayNum = 2;
+const maxLightRayNum = 500;
+
+export const lighting2DStateRules: StateRules<Lighting2DState> = {
+    surfaceNormal: { unit: true },
+    lightDir: { unit: true },
+    lightPos: { min: -4, max: 4 },
+    lightRayNum: { integer: true, min: minLightRayNum, max: maxLightRayNum },
+};
+
+export interface Lighting2DOptions {
+    // Scenes with surfaces of their own leave out the one at the origin.
+    showSurface: boolean;
+    showSurfaceNormal: boolean;
+    showLightRayDir: boolean;
+    showLightRayPos: boolean;
+}
+
+// Where everything is this frame, and what color it should be drawn in.
+export interface Lighting2DFrame {
+    mouseWorld: vec2;
+
+    surfaceOrigin: vec2;
+    surfaceSize: number;
+    surfaceA: vec2;
+    surfaceB: vec2;
+    surfaceColor: string;
+
+    lightDirOrigin: vec2;
+    lightDirPerp: vec2;
+    lightDirSize: number;
+    lightDirLineWidth: number;
+    lightDirColor: string;
+    lightDirHitColor: string;
+    lightDirHitBackfaceColor: string;
+    // Whether the light position has the keyboard focus.
+    lightPosFocused: boolean;
+}
+
+export interface LightRayCount {
+    lightRayNum: number;
+    lightRayHitNum: number;
+    // The direction the light travels in, towards the surface.
+    lightDir: ReadonlyVec2;
+    // Where each ray that hit the surface hit it, from 0 at surfaceA to 1 at surfaceB.
+    hitPositions: number[];
+}
+
+export function getSurfaceNormalArrowEnd(ctx: DemoContext, state: Lighting2DState, frame: Lighting2DFrame): vec2 {
+    return vec2.scaleAndAdd(vec2.create(), frame.surfaceOrigin, state.surfaceNormal, frame.surfaceSize - (40 / ctx.view2D.viewport[0]));
+}
+
+// Lays out the scene, and handles the wheel and dragging of the surface and the light.
+export function beginLighting2D(ctx: DemoContext, state: Lighting2DState, options: Lighting2DOptions): Lighting2DFrame {
+    const canvas = ctx.canvas;
+    ctx.view2D.beginFrame(canvas);
+    const mouseWorld = ctx.view2D.transformCanvasToWorld(canvas.mouse);
+
+    state.lightRayNum += -Math.sign(canvas.mouseWheel);
+    state.lightRayNum = clamp(state.lightRayNum, minLightRayNum, maxLightRayNum);
+
+    const surfacePerp = perpL(state.surfaceNormal);
+    const surfaceSize = 0.4;
+    const surfaceOrigin = vec2.fromValues(0, 0);
+    const surfaceA = vec2.scaleAndAdd(vec2.create(), surfaceOrigin, surfacePerp, surfaceSize);
+    const surfaceB = vec2.scaleAndAdd(vec2.create(), surfaceOrigin, surfacePerp, -surfaceSize);
+
+    const lightDirPerp = perpL(state.lightDir);
+    const lightDirSize = 0.4;
+    const lightDirOrigin = vec2.fromValues(0, 0);
+    const lightDirLineWidth = lerp(6, 2, saturate(invlerp(10, 40, state.lightRayNum)));
+
+    const frame: Lighting2DFrame = {
+        mouseWorld,
+        surfaceOrigin, surfaceSize, surfaceA, surfaceB,
+        surfaceColor: '#666',
+        lightDirOrigin, lightDirPerp, lightDirSize, lightDirLineWidth,
+        lightDirColor: '#cccccc',
+        lightDirHitColor: '#ffa500',
+        lightDirHitBackfaceColor: '#aaaaaa',
+        lightPosFocused: false,
+    };
+
+    // The surface can be grabbed by its line or by the normal's arrow, and the directional light anywhere
+    // away from the surface. Shift snaps directions to 15 degrees, and the light position to a 0.05 grid.
+    const handles = ctx.handles;
+    const snapAngle = 15 * Math.PI / 180, snapGrid = 0.05;
+
+    if (options.showSurface) {
+        const surfaceShapes: HandleShape[] = [{ type: 'segment', a: surfaceA, b: surfaceB }];
+        if (options.showSurfaceNormal)
+            surfaceShapes.push({ type: 'segment', a: surfaceOrigin, b: getSurfaceNormalArrowEnd(ctx, state, frame) });
+        const surface = handles.handle({
+            id: 'Surface Normal', space: ctx.view2D, shapes: surfaceShapes, hitRadius: 0.02, priority: 2,
+            behavior: { type: 'rotation', target: state.surfaceNormal, origin: surfaceOrigin, snap: snapAngle },
+        });
+        if (surface.focused)
+            frame.surfaceColor = uiStyle.focusColor;
+        else if (surface.hot)
+            frame.surfaceColor = '#999';
+    }
+
+    if (options.showLightRayDir) {
+        const light = handles.handle({
+            id: 'Light Direction', space: ctx.view2D, shapes: [{ type: 'outside', center: lightDirOrigin, radius: 0.4 }], priority: 0,
+            behavior: { type: 'rotation', target: state.lightDir, origin: lightDirOrigin, snap: snapAngle },
+        });
+        if (light.active) {
+            frame.lightDirHitColor = '#ff8800';
+        } else if (light.focused) {
+            frame.lightDirColor = uiStyle.focusColor;
+        } else if (light.hot) {
+            frame.lightDirColor = '#999';
+        }
+    }
+
+    if (options.showLightRayPos) {
+        const light = handles.handle({
+            id: 'Light Position', space: ctx.view2D, shapes: [{ type: 'point', center: state.lightPos }], hitRadius: 0.02, priority: 1,
+            behavior: { type: 'position', target: state.lightPos, snap: snapGrid },
+        });
+        if (light.active) {
+            frame.lightDirHitColor = '#ff8800';
+        } else if (light.hot) {
+            frame.lightDirColor = '#999';
+        }
+        frame.lightPosFocused = light.focused;
+    }
+
+    return frame;
+}
+
+export function drawPointLight(ctx: DemoContext, state: Lighting2DState, frame: Lighting2DFrame): void {
+    const lightPos = ctx.view2D.transformWorldToCanvas(state.lightPos);
+    if (frame.lightPosFocused)
+        ctx.canvas.drawCircle(lightPos, ctx.canvas.getSize(56), uiStyle.focusColor, 2);
+    ctx.canvas.drawPoint(lightPos, frame.lightDirHitColor, 16);
+}
+
+// Where the ray from A to B hits the surface, given how far along the ray it does, from 0 at surfaceA to 1
+// at surfaceB.
+function getSurfaceHitPosition(frame: Lighting2DFrame, rayA: ReadonlyVec2, rayB: ReadonlyVec2, t: number): number {
+    const hit = vec2.lerp(vec2.create(), rayA, rayB, t);
+    const surface = vec2.sub(vec2.create(), frame.surfaceB, frame.surfaceA);
+    return vec2.dot(vec2.sub(hit, hit, frame.surfaceA), surface) / vec2.squaredLength(surface);
+}
+
+// The ith of the lightRayNum + 1 parallel rays spread evenly across the directional light, from A to B.
+function getDirectionalLightRay(state: Lighting2DState, frame: Lighting2DFrame, i: number, lightRayNum: number): [vec2, vec2] {
+    const rayT = (i / lightRayNum) * 2 - 1;
+    const magnitude = 4;
+    const lightDirO = vec2.scaleAndAdd(vec2.create(), frame.lightDirOrigin, frame.lightDirPerp, rayT * frame.lightDirSize);
+    const lightDirA = vec2.scaleAndAdd(vec2.create(), lightDirO, state.lightDir, -2);
+    const lightDirB = vec2.scaleAndAdd(vec2.create(), lightDirA, state.lightDir, magnitude);
+    return [lightDirA, lightDirB];
+}
+
+// How many of the directional light's rays would hit the surface with a different number of them, without
+// drawing any. The convergence plot asks for a hundred of these a frame, so rather than tracing each ray,
+// this counts the ones that start across from the surface, with lineRayIntersect's slack at its ends.
+export function countDirectionalLightRayHits(state: Lighting2DState, frame: Lighting2DFrame, lightRayNum: number): number {
+    const surface = vec2.sub(vec2.create(), frame.surfaceB, frame.surfaceA);
+    const ray = vec2.scale(vec2.create(), state.lightDir, 4);
+    if (Math.abs(surface[0] * ray[1] - ray[0] * surface[1]) < 0.01)
+        return 0;
+
+    // Where the surface's ends fall across the light, from 0 at its first ray to lightRayNum at its last.
+    const getRayIndex = (t: number) => {
+        const position = vec2.scaleAndAdd(vec2.create(), frame.surfaceA, surface, t);
+        vec2.sub(position, position, frame.lightDirOrigin);
+        const rayT = vec2.dot(position, frame.lightDirPerp) / (vec2.squaredLength(frame.lightDirPerp) * frame.lightDirSize);
+        return (rayT + 1) / 2 * lightRayNum;
+    };
+    const indexA = getRayIndex(-0.01), indexB = getRayIndex(1.01);
+    const first = Math.max(Math.ceil(Math.min(indexA, indexB)), 0);
+    const last = Math.min(Math.floor(Math.max(indexA, indexB)), lightRayNum);
+    return Math.max(last - first + 1, 0);
+}
+
+// Draws a row of parallel rays from the directional light, and counts how many hit the surface.
+export function drawDirectionalLightRays(ctx: DemoContext, state: Lighting2DState, frame: Lighting2DFrame, showBackface: boolean): LightRayCount {
+    const view = ctx.view2D;
+    let lightRayHitNum = 0;
+    const hitPositions: number[] = [];
+
+    for (let i = 0; i <= state.lightRayNum; i++) {
+        const [lightDirA, lightDirB] = getDirectionalLightRay(state, frame, i, state.lightRayNum);
+        const t = lineRayIntersect(frame.surfaceA, frame.surfaceB, lightDirA, lightDirB);
+        let color = frame.lightDirColor;
+        if (t >= 0) {
+            const backface = showBackface && (vec2.dot(state.surfaceNormal, state.lightDir) > 0);
+            color = backface ? frame.lightDirHitBackfaceColor : frame.lightDirHitColor;
+            hitPositions.push(getSurfaceHitPosition(frame, lightDirA, lightDirB, t));
+            vec2.lerp(lightDirB, lightDirA, lightDirB, t - 0.02);
+            lightRayHitNum++;
+        }
+
+        ctx.canvas.drawArrow(view.transformWorldToCanvas(lightDirA), view.transformWorldToCanvas(lightDirB), color, frame.lightDirLineWidth);
+    }
+
+    return { lightRayNum: state.lightRayNum + 1, lightRayHitNum, lightDir: state.lightDir, hitPositions };
+}
+
+// Draws rays going out in every direction from the point light, and counts how many hit the surface.
+// Rays that could never hit the surface, even if it faced the light head-on, are faded out and not counted.
+export function drawPointLightRays(ctx: DemoContext, state: Lighting2DState, frame: Lighting2DFrame): LightRayCount {
+    const view = ctx.view2D;
+    const lightPos = state.lightPos;
+    drawPointLight(ctx, state, frame);
+
+    const lightDir = vec2.sub(vec2.create(), frame.surfaceOrigin, lightPos);
+    vec2.normalize(lightDir, lightDir);
+
+    let lightRayNum = 0;
+    let lightRayHitNum = 0;
+    const hitPositions: number[] = [];
+
+    for (let i = 0; i < state.lightRayNum; i++) {
+        const rayTheta = (i / state.lightRayNum) * TAU;
+        const rayDir = vec2.fromValues(Math.cos(rayTheta), Math.sin(rayTheta));
+
+        const magnitude = 4;
+        const lightDirA = vec2.scaleAndAdd(vec2.create(), lightPos, rayDir, 0.025);
+        const lightDirB = vec2.scaleAndAdd(vec2.create(), lightPos, rayDir, magnitude);
+
+        let color = '#cccccc';
+
+        {
+            const surfacePerp = perpL(lightDir);
+            const surfaceA = vec2.scaleAndAdd(vec2.create(), frame.surfaceOrigin, surfacePerp, frame.surfaceSize);
+            const surfaceB = vec2.scaleAndAdd(vec2.create(), frame.surfaceOrigin, surfacePerp, -frame.surfaceSize);
+            const t = lineRayIntersect(surfaceA, surfaceB, lightDirA, lightDirB);
+            if (t < 0) {
+                color = '#eeeeee';
+                lightRayNum--;
+            }
+        }
+
+        lightRayNum++;
+        const t = lineRayIntersect(frame.surfaceA, frame.surfaceB, lightDirA, lightDirB);
+        if (t >= 0) {
+            color = frame.lightDirHitColor;
+            hitPositions.push(getSurfaceHitPosition(frame, lightDirA, lightDirB, t));
+            vec2.lerp(lightDirB, lightDirA, lightDirB, t - 0.02);
+            lightRayHitNum++;
+        }
+
+        ctx.canvas.drawArrow(view.transformWorldToCanvas(lightDirA), view.transformWorldToCanvas(lightDirB), color, frame.lightDirLineWidth);
+    }
+
+    return { lightRayNum, lightRayHitNum, lightDir, hitPositions };
+}
+
+export function drawSurfaceNormal(ctx: DemoContext, state: Lighting2DState, frame: Lighting2DFrame): void {
+    const view = ctx.view2D;
+    const surfaceArrowB = getSurfaceNormalArrowEnd(ctx, state, frame);
+    ctx.canvas.drawArrow(view.transformWorldToCanvas(frame.surfaceOrigin), view.transformWorldToCanvas(surfaceArrowB), frame.surfaceColor, 4);
+}
+
+export function drawSurface(ctx: DemoContext, frame: Lighting2DFrame): void {
+    const view = ctx.view2D;
+    ctx.canvas.drawLine(view.transformWorldToCanvas(frame.surfaceA), view.transformWorldToCanvas(frame.surfaceB), frame.surfaceColor, 4);
+}
+
+// The number of light rays can also be set with the mouse wheel.
+export function drawLightRayStepper(ctx: DemoContext, state: Lighting2DState): void {
+    const canvas = ctx.canvas;
+    ctx.ui.beginColumn(canvas.getSize(200), canvas.getSize(50));
+    state.lightRayNum = ctx.ui.stepper('Light Rays', state.lightRayNum, { step: 1, min: minLightRayNum, max: maxLightRayNum });
+    ctx.ui.endColumn();
+}
+
+// Any extra lines are drawn and announced after the counts.
+export function drawLightRayCountReadout(ctx: DemoContext, state: Lighting2DState, count: LightRayCount, extraLines: readonly string[] = []): void {
+    const canvas = ctx.canvas;
+    const canvasPosition = ctx.view2D.transformWorldToCanvas(vec2.fromValues(0.0, -0.65));
+    // The extra lines push the panel up, rather than off the bottom of the screen.
+    canvasPosition[1] -= canvas.getSize(40) * extraLines.length;
+
+    canvas.fillRect(0, canvasPosition[1] - canvas.getSize(50), canvas.width, canvas.height, 'rgba(255, 255, 255, 0.7)');
+
+    const { lightRayNum, lightRayHitNum } = count;
+    canvas.drawText(`Total number of possible light rays: ${lightRayNum}`, canvasPosition[0], canvasPosition[1], '#333', 24, 'center');
+    canvasPosition[1] += canvas.getSize(40);
+    canvas.drawText(`Number of light rays hitting the surface: ${lightRayHitNum}`, canvasPosition[0], canvasPosition[1], '#333', 24, 'center');
+    canvasPosition[1] += canvas.getSize(40);
+    const ratio = lightRayHitNum / (lightRayNum);
+    canvas.drawText(`Ratio: ${lightRayHitNum} / ${lightRayNum} = ${ratio.toFixed(4)}`, canvasPosition[0], canvasPosition[1], '#333', 24, 'center');
+    canvasPosition[1] += canvas.getSize(40);
+    const cos = Math.abs(vec2.dot(state.surfaceNormal, count.lightDir));
+    const angle = (Math.acos(cos) * 180 / Math.PI).toFixed(0);
+    canvas.drawText(`Angle: ${angle}°  Cos: ${cos.toFixed(4)}`, canvasPosition[0], canvasPosition[1], '#333', 24, 'center');
+    for (const line of extraLines) {
+        canvasPosition[1] += canvas.getSize(40);
+        canvas.drawText(line, canvasPosition[0], canvasPosition[1], '#333', 24, 'center');
+    }
+
+    ctx.announce([`${lightRayHitNum} of ${lightRayNum} light rays hit the surface, a ratio of ${ratio.toFixed(4)}. Angle ${angle} degrees, cosine ${cos.toFixed(4)}`, ... extraLines].join('. '));
+}
@@ -0,0 +1,212 @@
+import { vec2, vec3 } from 'gl-matrix';
+import { DemoContext } from '../demo';
+import { HandleSpace } from '../handles';
+import { StateRules } from '../state';
+import { TAU, clamp, computeUnitSphereCoords } from '../util';
+
+// The camera shared by the 3D demos. It looks at a target, from the direction given by latitude and
+// longitude, at a distance. Dragging orbits around the target, pans the target across the screen, or turns
+// the camera in place in fly mode, where WASD moves it around too.
+
+export type CameraMode3D = 'orbit' | 'pan' | 'fly';
+
+export interface OrbitCameraState {
+    cameraLatitude3D: number;
+    cameraLongitude3D: number;
+    cameraDistance3D: number;
+    cameraTarget3D: Float32Array;
+    cameraMode3D: string;
+}
+
+export const orbitCameraStateDefault: OrbitCameraState = {
+    cameraLatitude3D: -TAU * (0.7/4),
+    cameraLongitude3D: 2.2,
+    cameraDistance3D: -100,
+    cameraTarget3D: new Float32Array([0, 0, 0]),
+    cameraMode3D: 'orbit',
+};
+
+const cameraModes: readonly CameraMode3D[] = ['orbit', 'pan', 'fly'];
+
+// The longitude is the angle down from straight up, and stops short of the poles, where the camera's up
+// direction would flip over.
+const poleMargin = 0.05;
+
+export const orbitCameraStateRules: StateRules<OrbitCameraState> = {
+    cameraLongitude3D: { min: poleMargin, max: Math.PI - poleMargin },
+    cameraDistance3D: { min: -1000, max: -10 },
+    cameraTarget3D: { min: -1000, max: 1000 },
+    cameraMode3D: { values: () => cameraModes },
+};
+
+const orbitSpace: HandleSpace = {
+    transformCanvasToWorld: (v) => vec2.scale(vec2.create(), v, 0.005),
+};
+
+const cameraCursors: Record<CameraMode3D, string> = {
+    orbit: 'grab',
+    pan: 'move',
+    fly: 'crosshair',
+};
+
+// Each wheel step zooms by this factor, so zooming in and out is as quick close up as it is far away.
+const zoomStep = 1.15;
+// How long the smoothing and inertia take to settle, in milliseconds.
+const zoomSmoothing = 80;
+const inertiaDecay = 120;
+// How far WASD moves the camera in a second, as a fraction of its distance from the target.
+const flySpeed = 0.5;
+
+// These only last a moment, so they aren't part of the state. They're kept with ctx.transient, which
+// throws them away when the scene is replaced, so the camera doesn't drift or zoom away from a link or a
+// presentation step.
+interface CameraMotion {
+    // Where the drag has got to, which only matters for how far it moved since the last frame. Null until
+    // the first frame, so that a drag already in progress doesn't jump.
+    dragPosition: vec2 | null;
+    // The motion that carries on after a drag is let go of, in drag units per millisecond.
+    velocity: vec2;
+    // The distance the wheel is zooming towards.
+    zoomDistance: number | null;
+    lastFrameTime: number | null;
+}
+
+function getCameraMotion(ctx: DemoContext): CameraMotion {
+    return ctx.transient<CameraMotion>('Camera Motion', () => ({ dragPosition: null, velocity: vec2.create(), zoomDistance: null, lastFrameTime: null }));
+}
+
+function computeEye(state: OrbitCameraState): vec3 {
+    const eye = computeUnitSphereCoords(state.cameraLatitude3D, state.cameraLongitude3D);
+    return vec3.scaleAndAdd(eye, state.cameraTarget3D as vec3, eye, state.cameraDistance3D);
+}
+
+// The directions the camera looks along, and across the screen to the right and up. The distance is
+// negative, so the camera looks along the direction the latitude and longitude give.
+function computeCameraAxes(state: OrbitCameraState): { forward: vec3, right: vec3, up: vec3 } {
+    const forward = computeUnitSphereCoords(state.cameraLatitude3D, state.cameraLongitude3D);
+    const right = vec3.normalize(vec3.create(), vec3.cross(vec3.create(), forward, [0, 1, 0]));
+    const up = vec3.cross(vec3.create(), right, forward);
+    return { forward, right, up };
+}
+
+function setAngles(state: OrbitCameraState, latitude: number, longitude: number): void {
+    state.cameraLatitude3D = latitude;
+    state.cameraLongitude3D = clamp(longitude, poleMargin, Math.PI - poleMargin);
+}
+
+// Moves the camera by a drag, in the orbit handle's units: 0.005 for every canvas pixel.
+function applyCameraDrag(ctx: DemoContext, state: OrbitCameraState, delta: vec2): void {
+    switch (state.cameraMode3D as CameraMode3D) {
+    case 'orbit':
+        setAngles(state, state.cameraLatitude3D + delta[0], state.cameraLongitude3D + delta[1]);
+        break;
+    case 'pan': {
+        // The target moves with the mouse, so that whatever is at its depth stays under the mouse.
+        const { right, up } = computeCameraAxes(state);
+        // The same field of view as View3D's projection.
+        const fovy = TAU / 4.5;
+        const scale = 2 * Math.tan(fovy / 2) * Math.abs(state.cameraDistance3D) / ctx.canvas.height / 0.005;
+        const target = state.cameraTarget3D as vec3;
+        vec3.scaleAndAdd(target, target, right, -delta[0] * scale);
+        vec3.scaleAndAdd(target, target, up, delta[1] * scale);
+        break;
+    }
+    case 'fly': {
+        // The camera turns in place, and the target goes around it.
+        const eye = computeEye(state);
+        setAngles(state, state.cameraLatitude3D + delta[0], state.cameraLongitude3D + delta[1]);
+        const direction = computeUnitSphereCoords(state.cameraLatitude3D, state.cameraLongitude3D);
+        vec3.scaleAndAdd(state.cameraTarget3D as vec3, eye, direction, -state.cameraDistance3D);
+        break;
+    }
+    }
+}
+
+// WASD moves the camera and its target along the way it's looking, and to the sides.
+function applyFlyKeys(ctx: DemoContext, state: OrbitCameraState, dt: number): void {
+    const canvas = ctx.canvas;
+    const forward = (canvas.isKeyDown('KeyW') ? 1 : 0) - (canvas.isKeyDown('KeyS') ? 1 : 0);
+    const sideways = (canvas.isKeyDown('KeyD') ? 1 : 0) - (canvas.isKeyDown('KeyA') ? 1 : 0);
+    if (forward === 0 && sideways === 0)
+        return;
+
+    const axes = computeCameraAxes(state);
+    const step = flySpeed * Math.abs(state.cameraDistance3D) * dt / 1000;
+    const target = state.cameraTarget3D as vec3;
+    vec3.scaleAndAdd(target, target, axes.forward, forward * step);
+    vec3.scaleAndAdd(target, target, axes.right, sideways * step);
+}
+
+// Zooming goes by a factor of the distance rather than a fixed step, and eases towards where the wheel
+// has asked for.
+function applyZoom(ctx: DemoContext, state: OrbitCameraState, motion: CameraMotion, dt: number): void {
+    const wheel = Math.sign(ctx.canvas.mouseWheel);
+    if (wheel !== 0)
+        motion.zoomDistance = clamp((motion.zoomDistance ?? state.cameraDistance3D) * zoomStep ** wheel, -1000, -10);
+
+    // Two fingers zoom by pinching, which follows the fingers without any easing.
+    state.cameraDistance3D = clamp(state.cameraDistance3D / ctx.canvas.pinchScale, -1000, -10);
+
+    const zoomDistance = motion.zoomDistance;
+    if (zoomDistance === null)
+        return;
+    state.cameraDistance3D += (zoomDistance - state.cameraDistance3D) * (1 - Math.exp(-dt / zoomSmoothing));
+    if (Math.abs(zoomDistance - state.cameraDistance3D) < 0.01) {
+        state.cameraDistance3D = zoomDistance;
+        motion.zoomDistance = null;
+    }
+}
+
+// Moves the camera with the mouse, touch and keyboard, then sets up ctx.view3D to draw through it. Handles
+// that should win over the camera can be declared before or after this.
+export function beginFrame3D(ctx: DemoContext, state: OrbitCameraState): void {
+    // Exported frames show the camera where it is, without moving it on.
+    if (ctx.interactive) {
+        const motion = getCameraMotion(ctx);
+        const dt = motion.lastFrameTime !== null ? clamp(ctx.time - motion.lastFrameTime, 0, 100) : 0;
+        motion.lastFrameTime = ctx.time;
+        updateCamera(ctx, state, motion, dt);
+    }
+
+    ctx.view3D.beginFrame(ctx.canvas, state.cameraLatitude3D, state.cameraLongitude3D, state.cameraDistance3D, state.cameraTarget3D);
+}
+
+function updateCamera(ctx: DemoContext, state: OrbitCameraState, motion: CameraMotion, dt: number): void {
+    // Dragging anywhere that nothing else wants moves the camera, by 0.005 a pixel.
+    const target = motion.dragPosition !== null ? vec2.clone(motion.dragPosition) : vec2.create();
+    const handle = ctx.handles.handle({
+        id: 'Camera', space: orbitSpace, shapes: [{ type: 'everywhere' }], priority: -1, cursor: cameraCursors[state.cameraMode3D as CameraMode3D], changesView: true,
+        behavior: { type: 'position', target, keyStep: 0.05 },
+    });
+    const drag = motion.dragPosition !== null ? vec2.sub(vec2.create(), target, motion.dragPosition) : vec2.create();
+    motion.dragPosition = target;
+
+    // Two fingers orbit by twisting.
+    drag[0] += ctx.canvas.twistAngle;
+
+    if (handle.active) {
+        // Follows the drag's speed, smoothed over the last few frames, for the inertia after it's let go.
+        if (dt > 0)
+            vec2.lerp(motion.velocity, motion.velocity, vec2.scale(vec2.create(), drag, 1 / dt), 0.5);
+    } else {
+        vec2.scaleAndAdd(drag, drag, motion.velocity, dt);
+        vec2.scale(motion.velocity, motion.velocity, Math.exp(-dt / inertiaDecay));
+        if (vec2.length(motion.velocity) < 1e-5)
+            vec2.zero(motion.velocity);
+    }
+
+    if (drag[0] !== 0 || drag[1] !== 0)
+        applyCameraDrag(ctx, state, drag);
+    if (state.cameraMode3D === 'fly')
+        applyFlyKeys(ctx, state, dt);
+    applyZoom(ctx, state, motion, dt);
+}
+
+// Goes in a 3D demo's column of widgets.
+export function drawCameraModeRadio(ctx: DemoContext, state: OrbitCameraState): void {
+    state.cameraMode3D = ctx.ui.radio('Camera Mode', state.cameraMode3D as CameraMode3D, [
+        { value: 'orbit', label: 'Orbit' },
+        { value: 'pan', label: 'Pan' },
+        { value: 'fly', label: 'Fly' },
+    ]);
+}
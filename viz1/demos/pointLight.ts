@@ -0,0 +1,276 @@
+
+import { ReadonlyVec2, vec2, vec3 } from 'gl-matrix';
+import { drawChart } from '../chart';
+import { encodeColor, linearColorLerp, parseColor, toCSSColor, toHexColor } from '../color';
+import { Demo, DemoContext } from '../demo';
+import { arrow, drawFormula, fraction, hat, superscript, variable } from '../formula';
+import { StateRules } from '../state';
+import { TAU, perpL, saturate } from '../util';
+import { LightRayCount, Lighting2DFrame, Lighting2DState, beginLighting2D, drawLightRayCountReadout, drawLightRayStepper, drawPointLight, drawPointLightRays, drawSurface, drawSurfaceNormal, lighting2DStateDefault, lighting2DStateRules } from './lighting2D';
+
+// A surface lit by a point light, counting the rays that hit it.
+export const pointLightDemo: Demo<Lighting2DState> = {
+    id: 'PointLight',
+    title: 'Point Light',
+    stateDefault: lighting2DStateDefault,
+    stateRules: lighting2DStateRules,
+
+    update(ctx, state) {
+        const frame = beginLighting2D(ctx, state, { showSurface: true, showSurfaceNormal: false, showLightRayDir: false, showLightRayPos: true });
+        const count = drawPointLightRays(ctx, state, frame);
+        drawSurface(ctx, frame);
+        drawLightRayCountReadout(ctx, state, count);
+    },
+
+    widgets(ctx, state) {
+        drawLightRayStepper(ctx, state);
+    },
+};
+
+interface ColorPreset {
+    value: string;
+    label: string;
+    color: string;
+}
+
+const pixelLightColors: readonly ColorPreset[] = [
+    { value: 'orange', label: 'Orange', color: '#ffa500' },
+    { value: 'white', label: 'White', color: '#ffffff' },
+    { value: 'blue', label: 'Blue', color: '#3399ff' },
+];
+
+const pixelAlbedos: readonly ColorPreset[] = [
+    { value: 'white', label: 'White', color: '#ffffff' },
+    { value: 'gray', label: 'Gray', color: '#808080' },
+    { value: 'green', label: 'Green', color: '#4dcc4d' },
+];
+
+export interface PointLightPixelState extends Lighting2DState {
+    pixelLightColor: string;
+    pixelAlbedo: string;
+    pixelCompareSRGB: boolean;
+}
+
+const pointLightPixelStateDefault: PointLightPixelState = {
+    ... lighting2DStateDefault,
+    pixelLightColor: 'orange',
+    pixelAlbedo: 'white',
+    pixelCompareSRGB: false,
+};
+
+const pointLightPixelStateRules: StateRules<PointLightPixelState> = {
+    ... lighting2DStateRules,
+    pixelLightColor: { values: () => pixelLightColors.map((preset) => preset.value) },
+    pixelAlbedo: { values: () => pixelAlbedos.map((preset) => preset.value) },
+};
+
+function findPreset(presets: readonly ColorPreset[], value: string): ColorPreset {
+    return presets.find((preset) => preset.value === value) ?? presets[0];
+}
+
+// What's left where the light doesn't reach.
+const unlitColor = '#333333';
+
+// Swatches of the pixel's color in the top right corner, each with a label under it.
+function drawPixelSwatches(ctx: DemoContext, swatches: { label: string, color: string }[]): void {
+    const canvas = ctx.canvas;
+    const size = canvas.getSize(120), gap = canvas.getSize(40);
+    let x = canvas.width - canvas.getSize(40) - swatches.length * size - (swatches.length - 1) * gap;
+    const y = canvas.getSize(40);
+    for (const swatch of swatches) {
+        canvas.fillRect(x, y, size, size, swatch.color);
+        canvas.strokeRect(x, y, size, size, '#ccc', 1);
+        canvas.drawText(swatch.label, x + size / 2, y + size + canvas.getSize(30), '#333', 20, 'center');
+        x += size + gap;
+    }
+}
+
+// A single pixel on the surface, shaded by the cosine between its normal and the direction to the point light.
+// The light's color times the surface's albedo is what a head-on light makes it, and the cosine blends
+// between that and the unlit color. Blending in linear light is right; blending the sRGB values, as CSS
+// does, comes out too dark in between.
+export const pointLightPixelDemo: Demo<PointLightPixelState> = {
+    id: 'PointLightPixel',
+    title: 'Point Light Pixel',
+    stateDefault: pointLightPixelStateDefault,
+    stateRules: pointLightPixelStateRules,
+
+    update(ctx, state) {
+        const frame = beginLighting2D(ctx, state, { showSurface: true, showSurfaceNormal: true, showLightRayDir: false, showLightRayPos: true });
+        const canvas = ctx.canvas, view = ctx.view2D;
+
+        const lightColor = parseColor(findPreset(pixelLightColors, state.pixelLightColor).color);
+        const albedo = parseColor(findPreset(pixelAlbedos, state.pixelAlbedo).color);
+        const litColor = vec3.mul(vec3.create(), lightColor, albedo);
+        frame.lightDirHitColor = toCSSColor(lightColor);
+
+        const lightPos = state.lightPos;
+        drawPointLight(ctx, state, frame);
+        // The white light would vanish into the background without an outline.
+        canvas.drawCircle(view.transformWorldToCanvas(lightPos), canvas.getSize(16), '#999', 1);
+
+        const lightDir = vec2.sub(vec2.create(), frame.surfaceOrigin, lightPos);
+        vec2.normalize(lightDir, lightDir);
+
+        const dot = saturate(-vec2.dot(lightDir, state.surfaceNormal));
+        const unlit = parseColor(unlitColor);
+        const color = toCSSColor(vec3.lerp(vec3.create(), unlit, litColor, dot));
+        const srgbColor = toHexColor(vec3.lerp(vec3.create(), encodeColor(vec3.create(), unlit), encodeColor(vec3.create(), litColor), dot));
+
+        const lightDirA = vec2.scaleAndAdd(vec2.create(), lightPos, lightDir, 0.025);
+        const lightDirB = vec2.scaleAndAdd(vec2.create(), frame.surfaceOrigin, lightDir, -0.1);
+
+        canvas.drawArrow(view.transformWorldToCanvas(lightDirA), view.transformWorldToCanvas(lightDirB), color, frame.lightDirLineWidth);
+
+        drawSurfaceNormal(ctx, state, frame);
+        drawSurface(ctx, frame);
+
+        const canvasPosition = view.transformWorldToCanvas(vec2.fromValues(0.0, -0.75));
+
+        canvas.fillRect(0, canvasPosition[1] - canvas.getSize(50), canvas.width, canvas.height, 'rgba(255, 255, 255, 0.7)');
+
+        canvasPosition[1] += canvas.getSize(40) * 2;
+        const cos = -vec2.dot(lightDir, state.surfaceNormal);
+        const angle = (Math.acos(cos) * 180 / Math.PI).toFixed(0);
+        // L points from the surface towards the light.
+        const readout = [variable('\\theta'), ` = ${angle}°    cos `, variable('\\theta'), ' = ', hat(variable('N')), ' · ', hat(variable('L')), ` = ${cos.toFixed(4)}`];
+        drawFormula(canvas, readout, canvasPosition[0], canvasPosition[1], '#333', 24, 'center');
+
+        if (state.pixelCompareSRGB) {
+            drawPixelSwatches(ctx, [{ label: 'Lerp in sRGB', color: srgbColor }, { label: 'Light in linear space', color }]);
+            canvasPosition[1] += canvas.getSize(40);
+            canvas.drawText(`Lerp in sRGB: ${srgbColor}  Light in linear space: ${color}`, canvasPosition[0], canvasPosition[1], '#333', 24, 'center');
+            ctx.announce(`Angle ${angle} degrees, cosine ${cos.toFixed(4)}. Lerp in sRGB gives ${srgbColor}, light in linear space gives ${color}`);
+        } else {
+            drawPixelSwatches(ctx, [{ label: 'Pixel', color }]);
+            ctx.announce(`Angle ${angle} degrees, cosine ${cos.toFixed(4)}, pixel ${color}`);
+        }
+    },
+
+    widgets(ctx, state) {
+        const canvas = ctx.canvas, ui = ctx.ui;
+        ui.beginColumn(canvas.getSize(200), canvas.getSize(50));
+        state.pixelLightColor = ui.radio('Light Color', state.pixelLightColor, pixelLightColors);
+        state.pixelAlbedo = ui.radio('Albedo', state.pixelAlbedo, pixelAlbedos);
+        state.pixelCompareSRGB = ui.toggle('Compare sRGB Lerp', state.pixelCompareSRGB);
+        ui.endColumn();
+    },
+};
+
+// Irradiance is shown relative to a surface facing the light head-on from this distance.
+const falloffReferenceDistance = 0.5;
+const falloffBinCount = 16;
+const falloffPlotMaxDistance = 2;
+
+// How brightly a point on the surface is lit, relative to the reference: cos / r² for a light in 3D.
+function computeIrradiance(state: Lighting2DState, position: ReadonlyVec2): number {
+    const toLight = vec2.sub(vec2.create(), state.lightPos, position);
+    const r = vec2.length(toLight);
+    const cos = Math.max(vec2.dot(state.surfaceNormal, toLight) / r, 0);
+    return cos * (falloffReferenceDistance / r) ** 2;
+}
+
+// The rays hitting each part of the surface, per unit length, relative to the rays a point light sends
+// through a unit length head-on at the reference distance, which is N / 2πr.
+function computeRayDensities(state: Lighting2DState, frame: Lighting2DFrame, count: LightRayCount): number[] {
+    const densities = new Array<number>(falloffBinCount).fill(0);
+    // Light from behind doesn't light the surface, however many rays get there.
+    if (vec2.dot(state.surfaceNormal, count.lightDir) >= 0)
+        return densities;
+
+    for (const t of count.hitPositions)
+        densities[Math.min(Math.floor(t * falloffBinCount), falloffBinCount - 1)]++;
+
+    const binLength = frame.surfaceSize * 2 / falloffBinCount;
+    const referenceDensity = state.lightRayNum / (TAU * falloffReferenceDistance);
+    return densities.map((n) => n / binLength / referenceDensity);
+}
+
+// A strip along the back of the surface, with each bin colored by its value.
+function drawFalloffStrip(ctx: DemoContext, state: Lighting2DState, frame: Lighting2DFrame, values: number[], offset: number, label: string): void {
+    const canvas = ctx.canvas, view = ctx.view2D;
+    const width = 0.04;
+    const getCorner = (t: number, depth: number) => {
+        const p = vec2.lerp(vec2.create(), frame.surfaceA, frame.surfaceB, t);
+        return view.transformWorldToCanvas(vec2.scaleAndAdd(p, p, state.surfaceNormal, -depth));
+    };
+
+    canvas.backend.pushGroup('strip');
+    values.forEach((v, i) => {
+        const t0 = i / values.length, t1 = (i + 1) / values.length;
+        const color = linearColorLerp(unlitColor, frame.lightDirHitColor, saturate(v));
+        canvas.drawPolygon([getCorner(t0, offset), getCorner(t1, offset), getCorner(t1, offset + width), getCorner(t0, offset + width)], color);
+    });
+    canvas.backend.popGroup();
+
+    const labelPosition = vec2.scaleAndAdd(vec2.create(), frame.surfaceB, perpL(state.surfaceNormal), -0.03);
+    vec2.scaleAndAdd(labelPosition, labelPosition, state.surfaceNormal, -(offset + width / 2));
+    const canvasPosition = view.transformWorldToCanvas(labelPosition);
+    const align = canvasPosition[0] >= view.transformWorldToCanvas(frame.surfaceB)[0] ? 'left' : 'right';
+    canvas.drawText(label, canvasPosition[0], canvasPosition[1], '#333', 20, align, 'middle');
+}
+
+// Irradiance against distance, for a surface at the current angle: 1 / r² for a light in 3D, and the
+// 1 / r that the rays in this 2D slice spread out by.
+function drawFalloffPlot(ctx: DemoContext, cos: number, r: number): void {
+    const canvas = ctx.canvas;
+    const w = canvas.getSize(360), h = canvas.getSize(220);
+    const curves = [
+        { label: 'cos / r²', color: '#ffa500', f: (d: number) => cos * (falloffReferenceDistance / d) ** 2 },
+        { label: 'cos / r (rays in 2D)', color: '#999', f: (d: number) => cos * falloffReferenceDistance / d },
+    ];
+
+    const x = canvas.width - w - canvas.getSize(40), y = canvas.getSize(40);
+    drawChart(canvas, {
+        x, y, width: w, height: h,
+        xAxis: { min: 0, max: falloffPlotMaxDistance, label: 'r', ticks: [0, 0.5, 1, 1.5, 2] },
+        yAxis: { min: 0, max: 2, label: 'E', ticks: [0, 1, 2] },
+        curves,
+        // The surface's distance right now.
+        markers: curves.map((curve) => ({ x: r, y: curve.f(r), color: curve.color })),
+        cursorX: r,
+    });
+
+    // L points from the surface towards the light, so its length is the distance.
+    const L = variable('L');
+    const irradiance = fraction([hat(variable('N')), ' · ', hat(L)], superscript(variable('r'), '2'));
+    drawFormula(canvas, [variable('r'), ' = |', arrow(L), `| = ${r.toFixed(2)}`], x + w / 2, y + h + canvas.getSize(100), '#333', 24, 'center', 'middle');
+    drawFormula(canvas, [variable('E'), ' = ', irradiance, ` = ${(cos / (r * r)).toFixed(4)}`], x + w / 2, y + h + canvas.getSize(170), '#333', 24, 'center', 'middle');
+}
+
+// A point light over a surface that can be moved further away, comparing how many rays reach each part of
+// the surface with the inverse square law.
+export const pointLightFalloffDemo: Demo<Lighting2DState> = {
+    id: 'PointLightFalloff',
+    title: 'Inverse Square Falloff',
+    stateDefault: lighting2DStateDefault,
+    stateRules: lighting2DStateRules,
+
+    update(ctx, state) {
+        const frame = beginLighting2D(ctx, state, { showSurface: true, showSurfaceNormal: true, showLightRayDir: false, showLightRayPos: true });
+        const count = drawPointLightRays(ctx, state, frame);
+        drawSurfaceNormal(ctx, state, frame);
+        drawSurface(ctx, frame);
+
+        const irradiances: number[] = [];
+        for (let i = 0; i < falloffBinCount; i++)
+            irradiances.push(computeIrradiance(state, vec2.lerp(vec2.create(), frame.surfaceA, frame.surfaceB, (i + 0.5) / falloffBinCount)));
+        drawFalloffStrip(ctx, state, frame, computeRayDensities(state, frame, count), 0.03, 'Rays');
+        drawFalloffStrip(ctx, state, frame, irradiances, 0.09, 'cos / r²');
+
+        const r = vec2.distance(state.lightPos, frame.surfaceOrigin);
+        const cos = Math.max(-vec2.dot(state.surfaceNormal, count.lightDir), 0);
+        drawFalloffPlot(ctx, cos, r);
+
+        const density = count.lightRayHitNum / (frame.surfaceSize * 2);
+        const expectedDensity = state.lightRayNum * cos / (TAU * r);
+        drawLightRayCountReadout(ctx, state, count, [
+            `Rays per unit length: ${density.toFixed(2)}  At the center, N cos / 2πr: ${expectedDensity.toFixed(2)}`,
+        ]);
+        ctx.announce(`Distance ${r.toFixed(2)}, irradiance ${(cos / (r * r)).toFixed(4)}`);
+    },
+
+    widgets(ctx, state) {
+        drawLightRayStepper(ctx, state);
+    },
+};
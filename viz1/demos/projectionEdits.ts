@@ -0,0 +1,64 @@
+
+import { ReadonlyMat4, mat4, vec2 } from 'gl-matrix';
+import { DemoContext } from '../demo';
+import { HandleState } from '../handles';
+import { StateRules } from '../state';
+import { uiStyle } from '../ui';
+
+// Edits to a projection matrix, made by dragging its cells, to see what breaking each of its terms does.
+// The Projection Matrix and Transform Pipeline demos share them, each adding them to the projection it
+// shows.
+
+export interface ProjectionEditState {
+    // Added to the projection matrix, cell by cell, in gl-matrix's column-major order.
+    projectionMatrixEdits: Float32Array;
+}
+
+export const projectionEditStateDefault: ProjectionEditState = {
+    projectionMatrixEdits: new Float32Array(16),
+};
+
+export const projectionEditStateRules: StateRules<ProjectionEditState> = {
+    projectionMatrixEdits: { min: -10, max: 10 },
+};
+
+export const editedCellColor = '#cc3333';
+
+export function applyProjectionEdits(out: mat4, projection: ReadonlyMat4, state: ProjectionEditState): mat4 {
+    return mat4.add(out, projection, state.projectionMatrixEdits);
+}
+
+export function isProjectionEdited(state: ProjectionEditState): boolean {
+    return state.projectionMatrixEdits.some((v) => v !== 0);
+}
+
+export function isCellEdited(state: ProjectionEditState, row: number, column: number): boolean {
+    return state.projectionMatrixEdits[column * 4 + row] !== 0;
+}
+
+// A handle over the cell at the given row and column, in canvas pixels, which is dragged sideways to edit it.
+// The edits are made against the given projection, before they're added.
+export function updateMatrixCellHandle(ctx: DemoContext, state: ProjectionEditState, projection: ReadonlyMat4, row: number, column: number, cell: { x: number, y: number, width: number, height: number }): HandleState {
+    const canvas = ctx.canvas;
+    // gl-matrix stores matrices column by column.
+    const i = column * 4 + row;
+    const centerY = cell.y + cell.height / 2;
+    const handle = ctx.handles.handle({
+        id: `Matrix Row ${row + 1} Column ${column + 1}`,
+        shapes: [{ type: 'segment', a: vec2.fromValues(cell.x + cell.height / 2, centerY), b: vec2.fromValues(cell.x + cell.width - cell.height / 2, centerY) }],
+        hitRadius: cell.height / 2, priority: 1,
+        behavior: {
+            type: 'slider', value: projection[i] + state.projectionMatrixEdits[i], onChange: (v) => { state.projectionMatrixEdits[i] = v - projection[i]; },
+            axis: [1 / canvas.getSize(100), 0], min: projection[i] - 10, max: projection[i] + 10, snap: 0.05, keyStep: 0.05,
+        },
+    });
+    if (handle.focused)
+        canvas.strokeRect(cell.x, cell.y, cell.width, cell.height, uiStyle.focusColor, 2);
+    return handle;
+}
+
+// Goes in the demo's column of widgets.
+export function drawResetMatrixButton(ctx: DemoContext, state: ProjectionEditState): void {
+    if (ctx.ui.button('Reset Matrix'))
+        state.projectionMatrixEdits.fill(0);
+}
@@ -0,0 +1,162 @@
+
+import { ReadonlyVec2, ReadonlyVec4, vec2, vec4 } from 'gl-matrix';
+import { Demo, DemoContext } from '../demo';
+import { RasterVertex, Rasterizer } from '../raster';
+import { PixelBuffer } from '../render';
+import { StateRules } from '../state';
+import { uiStyle } from '../ui';
+
+// The rasterization stage, blown up: two triangles drawn into a tiny color and depth buffer, with every
+// pixel shown as a square on a grid. One triangle can be moved by its corners, and passes through the
+// other, so that the depth test has something to do.
+
+export interface RasterizationState {
+    // The corners of the movable triangle, as three 2D points one after another.
+    rasterTriangle: Float32Array;
+    rasterDepthTest: boolean;
+    rasterShowDepth: boolean;
+}
+
+const rasterizationStateDefault: RasterizationState = {
+    rasterTriangle: new Float32Array([-0.6, -0.4, 0.65, -0.15, -0.15, 0.75]),
+    rasterDepthTest: true,
+    rasterShowDepth: false,
+};
+
+const rasterizationStateRules: StateRules<RasterizationState> = {
+    rasterTriangle: { min: -1, max: 1 },
+};
+
+// The area of the world the pixel grid covers, and how many pixels it has.
+const gridMin = vec2.fromValues(-0.8, -0.5);
+const gridMax = vec2.fromValues(0.8, 0.9);
+const gridWidth = 16, gridHeight = 14;
+
+// The movable triangle's corners are red, green and blue, and their depths put it in front of the other
+// triangle at the bottom and behind it at the top.
+const movableColors: ReadonlyVec4[] = [[0.9, 0.2, 0.2, 1], [0.2, 0.75, 0.3, 1], [0.2, 0.4, 0.9, 1]];
+const movableDepths = [-0.6, -0.6, 0.6];
+
+const fixedPositions: ReadonlyVec2[] = [[-0.75, 0.55], [0.75, 0.7], [0.3, -0.45]];
+const fixedDepths = [0.4, -0.8, 0.1];
+const fixedColor: ReadonlyVec4 = [0.95, 0.65, 0.2, 1];
+
+const raster = new Rasterizer(gridWidth, gridHeight);
+
+function transformGridToClip(position: ReadonlyVec2, depth: number): vec4 {
+    const x = (position[0] - gridMin[0]) / (gridMax[0] - gridMin[0]) * 2 - 1;
+    const y = (position[1] - gridMin[1]) / (gridMax[1] - gridMin[1]) * 2 - 1;
+    return vec4.fromValues(x, y, depth, 1);
+}
+
+function getCorner(state: RasterizationState, i: number): vec2 {
+    // A view into the state, so that dragging the corner moves it there.
+    return state.rasterTriangle.subarray(i * 2, i * 2 + 2) as vec2;
+}
+
+function rasterizeTriangles(state: RasterizationState): void {
+    raster.depthTest = state.rasterDepthTest;
+    raster.clear([1, 1, 1, 1]);
+
+    const shader = (varyings: Float32Array, out: vec4) => { vec4.set(out, varyings[0], varyings[1], varyings[2], 1); };
+    const movable: RasterVertex[] = [0, 1, 2].map((i) => ({ clip: transformGridToClip(getCorner(state, i), movableDepths[i]), varyings: movableColors[i] }));
+    const fixed: RasterVertex[] = [0, 1, 2].map((i) => ({ clip: transformGridToClip(fixedPositions[i], fixedDepths[i]), varyings: fixedColor }));
+    raster.drawTriangle(movable[0], movable[1], movable[2], shader);
+    raster.drawTriangle(fixed[0], fixed[1], fixed[2], shader);
+}
+
+// The depth buffer as shades of gray, from black at the near plane to white at the far plane.
+function getDepthImage(): PixelBuffer {
+    const data = new Uint8ClampedArray(raster.width * raster.height * 4);
+    for (let i = 0; i < raster.depth.length; i++) {
+        const v = raster.depth[i] * 255;
+        data[i * 4 + 0] = v;
+        data[i * 4 + 1] = v;
+        data[i * 4 + 2] = v;
+        data[i * 4 + 3] = 255;
+    }
+    return { width: raster.width, height: raster.height, data };
+}
+
+function drawTriangleOutline(ctx: DemoContext, positions: ReadonlyVec2[], color: string): void {
+    for (let i = 0; i < 3; i++)
+        ctx.canvas.drawLine(ctx.view2D.transformWorldToCanvas(positions[i]), ctx.view2D.transformWorldToCanvas(positions[(i + 1) % 3]), color, 3);
+}
+
+function drawRasterization(ctx: DemoContext, state: RasterizationState): void {
+    const canvas = ctx.canvas, view = ctx.view2D;
+    view.beginFrame(canvas);
+
+    // Handles first, so that the triangle is rasterized where the corners are now.
+    const pixelSize = (gridMax[0] - gridMin[0]) / gridWidth;
+    const corners = [0, 1, 2].map((i) => getCorner(state, i));
+    const handleStates = corners.map((corner, i) => ctx.handles.handle({
+        id: `Corner ${i + 1}`, space: view, shapes: [{ type: 'point', center: corner }], hitRadius: 0.04,
+        behavior: { type: 'position', target: corner, snap: pixelSize / 2 },
+    }));
+
+    rasterizeTriangles(state);
+
+    const topLeft = view.transformWorldToCanvas(vec2.fromValues(gridMin[0], gridMax[1]));
+    const bottomRight = view.transformWorldToCanvas(vec2.fromValues(gridMax[0], gridMin[1]));
+    const w = bottomRight[0] - topLeft[0], h = bottomRight[1] - topLeft[1];
+    canvas.drawImage(state.rasterShowDepth ? getDepthImage() : raster, topLeft[0], topLeft[1], w, h);
+
+    // The pixel grid, and the point at the center of each pixel that decides whether it's covered.
+    canvas.backend.pushGroup('grid');
+    for (let x = 0; x <= gridWidth; x++) {
+        const cx = topLeft[0] + w * x / gridWidth;
+        canvas.drawLine(vec2.fromValues(cx, topLeft[1]), vec2.fromValues(cx, bottomRight[1]), '#ccc', 1);
+    }
+    for (let y = 0; y <= gridHeight; y++) {
+        const cy = topLeft[1] + h * y / gridHeight;
+        canvas.drawLine(vec2.fromValues(topLeft[0], cy), vec2.fromValues(bottomRight[0], cy), '#ccc', 1);
+    }
+    for (let y = 0; y < gridHeight; y++)
+        for (let x = 0; x < gridWidth; x++)
+            canvas.drawPoint(vec2.fromValues(topLeft[0] + w * (x + 0.5) / gridWidth, topLeft[1] + h * (y + 0.5) / gridHeight), '#999', 3);
+    canvas.backend.popGroup();
+
+    drawTriangleOutline(ctx, fixedPositions, '#999');
+    drawTriangleOutline(ctx, corners, '#333');
+
+    corners.forEach((corner, i) => {
+        const position = view.transformWorldToCanvas(corner);
+        const color = movableColors[i];
+        const handle = handleStates[i];
+        if (handle.focused)
+            canvas.drawCircle(position, canvas.getSize(56), uiStyle.focusColor, 2);
+        if (handle.hot || handle.active)
+            canvas.drawPoint(position, '#333', handle.active ? 24 : 20);
+        canvas.drawPoint(position, `rgb(${color[0] * 255}, ${color[1] * 255}, ${color[2] * 255})`, 16);
+    });
+}
+
+function drawRasterizationWidgets(ctx: DemoContext, state: RasterizationState): void {
+    const canvas = ctx.canvas, ui = ctx.ui;
+    ui.beginColumn(canvas.getSize(200), canvas.getSize(50));
+    state.rasterDepthTest = ui.toggle('Depth Test', state.rasterDepthTest);
+    state.rasterShowDepth = ui.toggle('Show Depth', state.rasterShowDepth);
+    ui.space();
+    const { fragments, depthFailed } = raster.stats;
+    ui.readout('Pixels Covered', `${fragments}`);
+    ui.readout('Hidden', `${depthFailed}`);
+    ui.endColumn();
+
+    ctx.announce(`${fragments} pixels covered, ${depthFailed} of them hidden by the depth test`);
+}
+
+export const rasterizationDemo: Demo<RasterizationState> = {
+    id: 'Rasterization',
+    title: 'Rasterization',
+    stateDefault: rasterizationStateDefault,
+    stateRules: rasterizationStateRules,
+
+    update(ctx, state) {
+        drawRasterization(ctx, state);
+    },
+
+    widgets(ctx, state) {
+        drawRasterizationWidgets(ctx, state);
+    },
+};
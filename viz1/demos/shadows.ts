@@ -0,0 +1,477 @@
+
+import { ReadonlyVec2, vec2 } from 'gl-matrix';
+import { linearColorLerp } from '../color';
+import { Demo, DemoContext } from '../demo';
+import { HandleState } from '../handles';
+import { StateRules } from '../state';
+import { uiStyle } from '../ui';
+import { TAU, clamp, lineRayIntersect } from '../util';
+import { Lighting2DFrame, Lighting2DState, beginLighting2D, drawLightRayStepper, drawPointLight, lighting2DStateDefault, lighting2DStateRules } from './lighting2D';
+
+// Shadows, with the rays of the other 2D lighting demos: a scene of line segments, each of which both
+// receives light and blocks it. Every ray stops at the first segment it hits, so whatever is behind that
+// segment gets no rays at all.
+
+export type ShadowLightType = 'point' | 'directional';
+
+export interface ShadowState extends Lighting2DState {
+    // The segments' endpoints, four numbers each. Only the first shadowSegmentCount are in the scene.
+    shadowSegments: Float32Array;
+    shadowSegmentCount: number;
+    shadowLightType: string;
+}
+
+const maxSegmentCount = 6;
+
+const shadowStateDefault: ShadowState = {
+    ... lighting2DStateDefault,
+    shadowSegments: new Float32Array([
+        -0.8, -0.4, 0.8, -0.4,
+        -0.3, 0.05, 0.1, 0.05,
+        0.45, 0.3, 0.65, -0.1,
+        ... new Array((maxSegmentCount - 3) * 4).fill(0),
+    ]),
+    shadowSegmentCount: 3,
+    shadowLightType: 'point',
+};
+
+const shadowLightTypes: readonly ShadowLightType[] = ['point', 'directional'];
+
+const shadowStateRules: StateRules<ShadowState> = {
+    ... lighting2DStateRules,
+    shadowSegments: { min: -4, max: 4 },
+    shadowSegmentCount: { integer: true, min: 1, max: maxSegmentCount },
+    shadowLightType: { values: () => shadowLightTypes },
+};
+
+// The segment that was last grabbed or focused, which the Delete button removes. It's kept with
+// ctx.transient, so it's forgotten when the scene is replaced.
+interface SegmentSelection {
+    index: number;
+}
+
+function getSegmentSelection(ctx: DemoContext): SegmentSelection {
+    return ctx.transient<SegmentSelection>('Segment Selection', () => ({ index: -1 }));
+}
+
+function getSegmentEnd(state: ShadowState, i: number, end: number): vec2 {
+    // A view into the state, so that dragging the end moves it there.
+    return state.shadowSegments.subarray(i * 4 + end * 2, i * 4 + end * 2 + 2) as vec2;
+}
+
+interface Segment {
+    a: vec2;
+    b: vec2;
+}
+
+function getSegments(state: ShadowState): Segment[] {
+    const segments: Segment[] = [];
+    for (let i = 0; i < state.shadowSegmentCount; i++)
+        segments.push({ a: getSegmentEnd(state, i, 0), b: getSegmentEnd(state, i, 1) });
+    return segments;
+}
+
+interface RayHit {
+    t: number;
+    segment: number;
+}
+
+// The first segment the ray from A towards B hits, as a fraction of the way from A to B.
+function traceRay(segments: Segment[], rayA: ReadonlyVec2, rayB: ReadonlyVec2, ignore = -1): RayHit | null {
+    let nearest: RayHit | null = null;
+    segments.forEach((segment, i) => {
+        if (i === ignore)
+            return;
+        const t = lineRayIntersect(segment.a, segment.b, rayA, rayB);
+        if (t >= 0 && (nearest === null || t < nearest.t))
+            nearest = { t, segment: i };
+    });
+    return nearest;
+}
+
+// A segment can be dragged by its ends, or moved whole by grabbing it anywhere in between. Returns the
+// handle for the whole segment, then the ones for its ends.
+function updateSegmentHandle(ctx: DemoContext, id: string, segment: Segment): HandleState[] {
+    const view = ctx.view2D;
+    const snapGrid = 0.05;
+    const ends = [segment.a, segment.b].map((end, j) => ctx.handles.handle({
+        id: `${id} End ${j + 1}`, space: view, shapes: [{ type: 'point', center: end }], hitRadius: 0.03, priority: 2,
+        behavior: { type: 'position', target: end, snap: snapGrid },
+    }));
+
+    const center = vec2.lerp(vec2.create(), segment.a, segment.b, 0.5);
+    const target = vec2.clone(center);
+    const body = ctx.handles.handle({
+        id, space: view, shapes: [{ type: 'segment', a: segment.a, b: segment.b }], hitRadius: 0.02, priority: 1,
+        behavior: { type: 'position', target, snap: snapGrid },
+    });
+    const delta = vec2.sub(vec2.create(), target, center);
+    vec2.add(segment.a, segment.a, delta);
+    vec2.add(segment.b, segment.b, delta);
+
+    return [body, ... ends];
+}
+
+function updateSegmentHandles(ctx: DemoContext, state: ShadowState, segments: Segment[]): void {
+    const selection = getSegmentSelection(ctx);
+    segments.forEach((segment, i) => {
+        const handles = updateSegmentHandle(ctx, `Segment ${i + 1}`, segment);
+        if (handles.some((handle) => handle.active || handle.focused))
+            selection.index = i;
+    });
+
+    if (selection.index >= state.shadowSegmentCount)
+        selection.index = -1;
+}
+
+// The area behind each segment that it keeps the light from, drawn out to well past the edge of the screen.
+function drawShadowVolumes(ctx: DemoContext, state: ShadowState, segments: Segment[]): void {
+    const canvas = ctx.canvas, view = ctx.view2D;
+    const far = 10;
+    canvas.backend.pushGroup('shadows');
+    for (const segment of segments) {
+        const extruded = [segment.b, segment.a].map((end) => {
+            const dir = state.shadowLightType === 'point' ? vec2.sub(vec2.create(), end, state.lightPos) : vec2.clone(state.lightDir);
+            vec2.normalize(dir, dir);
+            return vec2.scaleAndAdd(vec2.create(), end, dir, far);
+        });
+        canvas.drawPolygon([segment.a, segment.b, ... extruded].map((p) => view.transformWorldToCanvas(p)), 'rgba(0, 0, 0, 0.06)');
+    }
+    canvas.backend.popGroup();
+}
+
+const rayMagnitude = 4;
+
+// Draws a ray up to the first segment it hits, and counts the hit.
+function drawShadowRay(ctx: DemoContext, frame: Lighting2DFrame, segments: Segment[], rayA: ReadonlyVec2, rayB: vec2, hits: number[]): void {
+    const view = ctx.view2D;
+    let color = frame.lightDirColor;
+    const hit = traceRay(segments, rayA, rayB);
+    if (hit !== null) {
+        color = frame.lightDirHitColor;
+        vec2.lerp(rayB, rayA, rayB, hit.t - 0.02 / rayMagnitude);
+        hits[hit.segment]++;
+    }
+
+    ctx.canvas.drawArrow(view.transformWorldToCanvas(rayA), view.transformWorldToCanvas(rayB), color, frame.lightDirLineWidth);
+}
+
+// Rays going out in every direction from a point.
+function drawShadowRaysFrom(ctx: DemoContext, state: ShadowState, frame: Lighting2DFrame, segments: Segment[], origin: ReadonlyVec2, hits: number[]): void {
+    for (let i = 0; i < state.lightRayNum; i++) {
+        const rayTheta = (i / state.lightRayNum) * TAU;
+        const rayDir = vec2.fromValues(Math.cos(rayTheta), Math.sin(rayTheta));
+        const rayA = vec2.scaleAndAdd(vec2.create(), origin, rayDir, 0.025);
+        const rayB = vec2.scaleAndAdd(vec2.create(), origin, rayDir, rayMagnitude);
+        drawShadowRay(ctx, frame, segments, rayA, rayB, hits);
+    }
+}
+
+// Rays from the light, each drawn up to the first segment it hits. Returns how many rays hit each segment.
+function drawShadowRays(ctx: DemoContext, state: ShadowState, frame: Lighting2DFrame, segments: Segment[]): number[] {
+    const hits = segments.map(() => 0);
+    if (state.shadowLightType === 'point') {
+        drawShadowRaysFrom(ctx, state, frame, segments, state.lightPos, hits);
+        return hits;
+    }
+
+    // Parallel rays across the whole scene.
+    for (let i = 0; i < state.lightRayNum; i++) {
+        const rayT = (i / (state.lightRayNum - 1)) * 2 - 1;
+        const rayO = vec2.scaleAndAdd(vec2.create(), frame.lightDirOrigin, frame.lightDirPerp, rayT * 1.2);
+        const rayA = vec2.scaleAndAdd(vec2.create(), rayO, state.lightDir, -2);
+        const rayB = vec2.scaleAndAdd(vec2.create(), rayA, state.lightDir, rayMagnitude);
+        drawShadowRay(ctx, frame, segments, rayA, rayB, hits);
+    }
+
+    return hits;
+}
+
+// Whether a point on a segment can see the target, with no other segment in the way.
+function canSee(segments: Segment[], segment: number, position: ReadonlyVec2, target: ReadonlyVec2): boolean {
+    const hit = traceRay(segments, position, target, segment);
+    return hit === null || hit.t > 1;
+}
+
+function isLit(state: ShadowState, segments: Segment[], segment: number, position: ReadonlyVec2): boolean {
+    const toLight = state.shadowLightType === 'point' ? state.lightPos : vec2.scaleAndAdd(vec2.create(), position, state.lightDir, -10);
+    return canSee(segments, segment, position, toLight);
+}
+
+// The segments, lit by how much of the light each part of them can see, from 0 in full shadow to 1.
+function drawSegments(ctx: DemoContext, frame: Lighting2DFrame, segments: Segment[], getVisibility: (segment: number, position: ReadonlyVec2) => number): void {
+    const canvas = ctx.canvas, view = ctx.view2D;
+    const sampleCount = 48;
+    const selection = getSegmentSelection(ctx);
+    segments.forEach((segment, i) => {
+        if (i === selection.index)
+            canvas.drawLine(view.transformWorldToCanvas(segment.a), view.transformWorldToCanvas(segment.b), 'rgba(0, 0, 0, 0.15)', 14);
+
+        for (let j = 0; j < sampleCount; j++) {
+            const a = vec2.lerp(vec2.create(), segment.a, segment.b, j / sampleCount);
+            const b = vec2.lerp(vec2.create(), segment.a, segment.b, (j + 1) / sampleCount);
+            const center = vec2.lerp(vec2.create(), a, b, 0.5);
+            const color = linearColorLerp('#333333', frame.lightDirHitColor, getVisibility(i, center));
+            canvas.drawLine(view.transformWorldToCanvas(a), view.transformWorldToCanvas(b), color, 6);
+        }
+
+        for (const end of [segment.a, segment.b])
+            canvas.drawPoint(view.transformWorldToCanvas(end), frame.surfaceColor, 12);
+    });
+}
+
+function drawShadowReadout(ctx: DemoContext, state: ShadowState, hits: number[]): void {
+    const canvas = ctx.canvas;
+    const canvasPosition = ctx.view2D.transformWorldToCanvas(vec2.fromValues(0.0, -0.65));
+
+    canvas.fillRect(0, canvasPosition[1] - canvas.getSize(50), canvas.width, canvas.height, 'rgba(255, 255, 255, 0.7)');
+
+    const hitNum = hits.reduce((a, b) => a + b, 0);
+    canvas.drawText(`Light rays hitting a segment: ${hitNum} of ${state.lightRayNum}`, canvasPosition[0], canvasPosition[1], '#333', 24, 'center');
+    canvasPosition[1] += canvas.getSize(40);
+    const perSegment = hits.map((n, i) => `${i + 1}: ${n}`).join('  ');
+    canvas.drawText(`Rays hitting each segment: ${perSegment}`, canvasPosition[0], canvasPosition[1], '#333', 24, 'center');
+
+    const descriptions = hits.map((n, i) => `segment ${i + 1} ${n}`);
+    ctx.announce(`${hitNum} of ${state.lightRayNum} light rays hit a segment: ${descriptions.join(', ')}`);
+}
+
+function addSegment(state: ShadowState, selection: SegmentSelection): void {
+    // New segments go in a stack in the middle, so that they don't all land on top of each other.
+    const i = state.shadowSegmentCount;
+    const y = 0.6 - i * 0.1;
+    state.shadowSegments.set([-0.2, y, 0.2, y], i * 4);
+    state.shadowSegmentCount++;
+    selection.index = i;
+}
+
+function deleteSegment(state: ShadowState, selection: SegmentSelection, i: number): void {
+    // Move the ones after it down, so the segments in the scene stay at the front of the array.
+    state.shadowSegments.copyWithin(i * 4, (i + 1) * 4);
+    state.shadowSegments.fill(0, (maxSegmentCount - 1) * 4);
+    state.shadowSegmentCount--;
+    selection.index = -1;
+}
+
+function drawSegmentButtons(ctx: DemoContext, state: ShadowState): void {
+    const ui = ctx.ui;
+    const selection = getSegmentSelection(ctx);
+    if (ui.button('Add Segment') && state.shadowSegmentCount < maxSegmentCount)
+        addSegment(state, selection);
+    // Removes the selected segment, or the last one if none is selected. There's always one left.
+    if (ui.button('Delete Segment') && state.shadowSegmentCount > 1)
+        deleteSegment(state, selection, selection.index >= 0 ? selection.index : state.shadowSegmentCount - 1);
+}
+
+function drawShadowWidgets(ctx: DemoContext, state: ShadowState): void {
+    const canvas = ctx.canvas, ui = ctx.ui;
+    drawLightRayStepper(ctx, state);
+    ui.beginColumn(canvas.getSize(200), canvas.getSize(50 + uiStyle.rowHeight));
+    state.shadowLightType = ui.radio('Light', state.shadowLightType as ShadowLightType, [
+        { value: 'point', label: 'Point' },
+        { value: 'directional', label: 'Directional' },
+    ]);
+    drawSegmentButtons(ctx, state);
+    ui.endColumn();
+}
+
+// Line segments that cast shadows on each other, lit by a point or directional light.
+export const shadowsDemo: Demo<ShadowState> = {
+    id: 'Shadows',
+    title: 'Shadows',
+    stateDefault: shadowStateDefault,
+    stateRules: shadowStateRules,
+
+    update(ctx, state) {
+        const pointLight = state.shadowLightType === 'point';
+        const frame = beginLighting2D(ctx, state, { showSurface: false, showSurfaceNormal: false, showLightRayDir: !pointLight, showLightRayPos: pointLight });
+        const segments = getSegments(state);
+        updateSegmentHandles(ctx, state, segments);
+
+        drawShadowVolumes(ctx, state, segments);
+        const hits = drawShadowRays(ctx, state, frame, segments);
+        drawSegments(ctx, frame, segments, (i, position) => isLit(state, segments, i, position) ? 1 : 0);
+        if (pointLight)
+            drawPointLight(ctx, state, frame);
+        drawShadowReadout(ctx, state, hits);
+    },
+
+    widgets(ctx, state) {
+        drawShadowWidgets(ctx, state);
+    },
+};
+
+export interface AreaLightState extends ShadowState {
+    // The area light's endpoints, four numbers.
+    areaLight: Float32Array;
+    areaLightSampleCount: number;
+}
+
+const maxAreaLightSampleCount = 32;
+
+const areaLightStateDefault: AreaLightState = {
+    ... shadowStateDefault,
+    areaLight: new Float32Array([-0.1, 0.75, 0.5, 0.75]),
+    areaLightSampleCount: 8,
+};
+
+const areaLightStateRules: StateRules<AreaLightState> = {
+    ... shadowStateRules,
+    areaLight: { min: -4, max: 4 },
+    areaLightSampleCount: { integer: true, min: 1, max: maxAreaLightSampleCount },
+};
+
+function getAreaLight(state: AreaLightState): Segment {
+    return { a: state.areaLight.subarray(0, 2) as vec2, b: state.areaLight.subarray(2, 4) as vec2 };
+}
+
+// The points along the light that the rays come from, one in the middle of each equal part of it.
+function getAreaLightSamples(state: AreaLightState): vec2[] {
+    const light = getAreaLight(state);
+    const samples: vec2[] = [];
+    for (let i = 0; i < state.areaLightSampleCount; i++)
+        samples.push(vec2.lerp(vec2.create(), light.a, light.b, (i + 0.5) / state.areaLightSampleCount));
+    return samples;
+}
+
+// The fraction of the light's samples that a point on a segment can see. It's 0 in the umbra, where the
+// whole light is hidden, and in between in the penumbra, where only part of it is.
+function computeVisibility(segments: Segment[], samples: vec2[], segment: number, position: ReadonlyVec2): number {
+    const visible = samples.filter((sample) => canSee(segments, segment, position, sample)).length;
+    return visible / samples.length;
+}
+
+function drawAreaLight(ctx: DemoContext, frame: Lighting2DFrame, state: AreaLightState, handles: HandleState[], samples: vec2[]): void {
+    const canvas = ctx.canvas, view = ctx.view2D;
+    const light = getAreaLight(state);
+    if (handles.some((handle) => handle.focused))
+        canvas.drawLine(view.transformWorldToCanvas(light.a), view.transformWorldToCanvas(light.b), uiStyle.focusColor, 16);
+    const width = handles.some((handle) => handle.hot || handle.active) ? 12 : 8;
+    canvas.drawLine(view.transformWorldToCanvas(light.a), view.transformWorldToCanvas(light.b), frame.lightDirHitColor, width);
+    for (const sample of samples)
+        canvas.drawPoint(view.transformWorldToCanvas(sample), '#fff', 6);
+}
+
+// The point on a segment under the mouse, if there is one.
+function pickSegmentPoint(ctx: DemoContext, frame: Lighting2DFrame, segments: Segment[]): { segment: number, position: vec2 } | null {
+    if (!ctx.interactive || ctx.handles.active !== null || ctx.ui.wantsMouse)
+        return null;
+
+    for (let i = 0; i < segments.length; i++) {
+        const { a, b } = segments[i];
+        const ab = vec2.sub(vec2.create(), b, a);
+        const t = clamp(vec2.dot(vec2.sub(vec2.create(), frame.mouseWorld, a), ab) / vec2.squaredLength(ab), 0, 1);
+        const position = vec2.scaleAndAdd(vec2.create(), a, ab, t);
+        if (vec2.distance(position, frame.mouseWorld) < 0.05)
+            return { segment: i, position };
+    }
+    return null;
+}
+
+// Lines from the point to every sample on the light, showing which ones it can see.
+function drawVisibilityLines(ctx: DemoContext, frame: Lighting2DFrame, segments: Segment[], samples: vec2[], segment: number, position: ReadonlyVec2): void {
+    const canvas = ctx.canvas, view = ctx.view2D;
+    for (const sample of samples) {
+        const color = canSee(segments, segment, position, sample) ? frame.lightDirHitColor : '#999';
+        canvas.drawLine(view.transformWorldToCanvas(position), view.transformWorldToCanvas(sample), color, 2);
+    }
+    canvas.drawPoint(view.transformWorldToCanvas(position), '#333', 14);
+}
+
+// How much of the segments' length is in the umbra, the penumbra and full light.
+function measureShadows(segments: Segment[], samples: vec2[]): { umbra: number, penumbra: number, lit: number } {
+    const sampleCount = 48;
+    let umbra = 0, penumbra = 0, lit = 0, total = 0;
+    segments.forEach((segment, i) => {
+        const length = vec2.distance(segment.a, segment.b) / sampleCount;
+        for (let j = 0; j < sampleCount; j++) {
+            const visibility = computeVisibility(segments, samples, i, vec2.lerp(vec2.create(), segment.a, segment.b, (j + 0.5) / sampleCount));
+            if (visibility === 0)
+                umbra += length;
+            else if (visibility === 1)
+                lit += length;
+            else
+                penumbra += length;
+            total += length;
+        }
+    });
+    return { umbra: umbra / total, penumbra: penumbra / total, lit: lit / total };
+}
+
+function drawAreaLightReadout(ctx: DemoContext, state: AreaLightState, segments: Segment[], samples: vec2[], hits: number[], picked: { segment: number, position: vec2 } | null): void {
+    const canvas = ctx.canvas;
+    const canvasPosition = ctx.view2D.transformWorldToCanvas(vec2.fromValues(0.0, -0.65));
+
+    canvas.fillRect(0, canvasPosition[1] - canvas.getSize(50), canvas.width, canvas.height, 'rgba(255, 255, 255, 0.7)');
+
+    const sampleCount = state.areaLightSampleCount;
+    const rayNum = sampleCount * state.lightRayNum, hitNum = hits.reduce((a, b) => a + b, 0);
+    const rays = `Light samples: ${sampleCount}  Rays from each: ${state.lightRayNum}  Hitting a segment: ${hitNum} of ${rayNum}`;
+    canvas.drawText(rays, canvasPosition[0], canvasPosition[1], '#333', 24, 'center');
+    canvasPosition[1] += canvas.getSize(40);
+
+    let pointDescription = '';
+    if (picked !== null) {
+        const visibility = computeVisibility(segments, samples, picked.segment, picked.position);
+        const visible = Math.round(visibility * sampleCount);
+        const region = visibility === 0 ? 'umbra' : visibility === 1 ? 'fully lit' : 'penumbra';
+        pointDescription = `Visible from this point: ${visible} of ${sampleCount} = ${visibility.toFixed(4)} (${region})`;
+    } else {
+        pointDescription = `Hover a segment to see how much of the light each point can see`;
+    }
+    canvas.drawText(pointDescription, canvasPosition[0], canvasPosition[1], '#333', 24, 'center');
+    canvasPosition[1] += canvas.getSize(40);
+
+    const { umbra, penumbra, lit } = measureShadows(segments, samples);
+    const percent = (v: number) => `${(v * 100).toFixed(0)}%`;
+    const regions = `Umbra: ${percent(umbra)}  Penumbra: ${percent(penumbra)}  Fully lit: ${percent(lit)}`;
+    canvas.drawText(regions, canvasPosition[0], canvasPosition[1], '#333', 24, 'center');
+
+    ctx.announce([`${sampleCount} light samples, ${state.lightRayNum} rays from each, ${hitNum} of ${rayNum} hitting a segment`, ... picked !== null ? [pointDescription] : [], regions].join('. '));
+}
+
+function drawAreaLightWidgets(ctx: DemoContext, state: AreaLightState): void {
+    const canvas = ctx.canvas, ui = ctx.ui;
+    drawLightRayStepper(ctx, state);
+    ui.beginColumn(canvas.getSize(200), canvas.getSize(50 + uiStyle.rowHeight));
+    state.areaLightSampleCount = ui.stepper('Light Samples', state.areaLightSampleCount, { step: 1, min: 1, max: maxAreaLightSampleCount });
+    drawSegmentButtons(ctx, state);
+    ui.endColumn();
+}
+
+// The same scene lit by a segment-shaped light, with rays from points along it. Points that can see only
+// part of the light are in the penumbra, which is what makes the shadows soft.
+export const areaLightDemo: Demo<AreaLightState> = {
+    id: 'AreaLight',
+    title: 'Area Light',
+    stateDefault: areaLightStateDefault,
+    stateRules: areaLightStateRules,
+
+    update(ctx, state) {
+        // The mouse wheel changes the number of light samples here, rather than the rays from each.
+        const lightRayNum = state.lightRayNum;
+        const frame = beginLighting2D(ctx, state, { showSurface: false, showSurfaceNormal: false, showLightRayDir: false, showLightRayPos: false });
+        state.lightRayNum = lightRayNum;
+        state.areaLightSampleCount = clamp(state.areaLightSampleCount - Math.sign(ctx.canvas.mouseWheel), 1, maxAreaLightSampleCount);
+
+        const segments = getSegments(state);
+        updateSegmentHandles(ctx, state, segments);
+        const lightHandles = updateSegmentHandle(ctx, 'Area Light', getAreaLight(state));
+        const samples = getAreaLightSamples(state);
+
+        const hits = segments.map(() => 0);
+        for (const sample of samples)
+            drawShadowRaysFrom(ctx, state, frame, segments, sample, hits);
+        drawSegments(ctx, frame, segments, (i, position) => computeVisibility(segments, samples, i, position));
+        drawAreaLight(ctx, frame, state, lightHandles, samples);
+
+        const picked = pickSegmentPoint(ctx, frame, segments);
+        if (picked !== null)
+            drawVisibilityLines(ctx, frame, segments, samples, picked.segment, picked.position);
+        drawAreaLightReadout(ctx, state, segments, samples, hits, picked);
+    },
+
+    widgets(ctx, state) {
+        drawAreaLightWidgets(ctx, state);
+    },
+};
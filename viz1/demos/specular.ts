@@ -0,0 +1,236 @@
+
+import { ReadonlyVec2, vec2 } from 'gl-matrix';
+import { linearColorLerp } from '../color';
+import { Demo, DemoContext } from '../demo';
+import { drawFormula, hat, superscript, variable } from '../formula';
+import { StateRules } from '../state';
+import { uiStyle } from '../ui';
+import { clamp, perpL } from '../util';
+import { Lighting2DFrame, Lighting2DState, beginLighting2D, drawDirectionalLightRays, drawLightRayStepper, drawSurface, drawSurfaceNormal, lighting2DStateDefault, lighting2DStateRules } from './lighting2D';
+
+// Specular reflection in the setup of the dot product demos: the directional light bounces off the surface
+// in the mirror direction, and how much of it the eye sees depends on how close the eye is to that
+// direction. Phong measures that with the reflected vector, Blinn-Phong with the half-vector between the
+// light and the eye.
+
+export interface SpecularState extends Lighting2DState {
+    specularEyePos: vec2;
+    specularShininess: number;
+}
+
+const specularStateDefault: SpecularState = {
+    ... lighting2DStateDefault,
+    specularEyePos: vec2.fromValues(-0.25, 0.75),
+    specularShininess: 16,
+};
+
+const specularStateRules: StateRules<SpecularState> = {
+    ... lighting2DStateRules,
+    specularEyePos: { min: -4, max: 4 },
+    specularShininess: { min: 1, max: 128 },
+};
+
+const phongColor = '#ffa500';
+const blinnPhongColor = '#3399ff';
+const eyeColor = '#333';
+
+interface SpecularVectors {
+    // Towards the light, the mirror direction the light leaves in, towards the eye, and halfway between the
+    // light and the eye. All from the surface origin.
+    l: vec2;
+    r: vec2;
+    v: vec2;
+    h: vec2;
+    // Light coming from behind the surface doesn't reflect off it.
+    lit: boolean;
+}
+
+function reflect(out: vec2, d: ReadonlyVec2, n: ReadonlyVec2): vec2 {
+    return vec2.scaleAndAdd(out, d, n, -2 * vec2.dot(d, n));
+}
+
+function computeSpecularVectors(state: SpecularState, position: ReadonlyVec2, eyePos: ReadonlyVec2 = state.specularEyePos): SpecularVectors {
+    const l = vec2.negate(vec2.create(), state.lightDir);
+    const r = reflect(vec2.create(), state.lightDir, state.surfaceNormal);
+    const v = vec2.sub(vec2.create(), eyePos, position);
+    vec2.normalize(v, v);
+    const h = vec2.add(vec2.create(), l, v);
+    vec2.normalize(h, h);
+    return { l, r, v, h, lit: vec2.dot(state.surfaceNormal, l) > 0 };
+}
+
+function computePhong(state: SpecularState, vectors: SpecularVectors): number {
+    return vectors.lit ? Math.max(vec2.dot(vectors.r, vectors.v), 0) ** state.specularShininess : 0;
+}
+
+function computeBlinnPhong(state: SpecularState, vectors: SpecularVectors): number {
+    // The eye has to be in front of the surface too, or N · H can still be positive.
+    const visible = vec2.dot(state.surfaceNormal, vectors.v) > 0;
+    return vectors.lit && visible ? Math.max(vec2.dot(state.surfaceNormal, vectors.h), 0) ** state.specularShininess : 0;
+}
+
+// The eye can be dragged around like the point light, and snaps to the same grid.
+function updateEyeHandle(ctx: DemoContext, state: SpecularState): void {
+    const canvas = ctx.canvas, view = ctx.view2D;
+    const eye = ctx.handles.handle({
+        id: 'Eye Position', space: view, shapes: [{ type: 'point', center: state.specularEyePos }], hitRadius: 0.03, priority: 1,
+        behavior: { type: 'position', target: state.specularEyePos, snap: 0.05 },
+    });
+
+    const position = view.transformWorldToCanvas(state.specularEyePos);
+    if (eye.focused)
+        canvas.drawCircle(position, canvas.getSize(56), uiStyle.focusColor, 2);
+    canvas.drawCircle(position, canvas.getSize(eye.hot || eye.active ? 48 : 40), eyeColor, 3);
+    canvas.drawPoint(position, eyeColor, 10);
+}
+
+function drawVector(ctx: DemoContext, origin: ReadonlyVec2, dir: ReadonlyVec2, length: number, color: string, label: string): void {
+    const canvas = ctx.canvas, view = ctx.view2D;
+    const end = vec2.scaleAndAdd(vec2.create(), origin, dir, length);
+    canvas.drawArrow(view.transformWorldToCanvas(origin), view.transformWorldToCanvas(end), color, 4);
+    const labelPosition = view.transformWorldToCanvas(vec2.scaleAndAdd(end, end, dir, 0.06));
+    canvas.drawText(label, labelPosition[0], labelPosition[1], color, 24, 'center', 'middle');
+}
+
+// The vectors at the surface origin, and the line from there to the eye.
+function drawSpecularVectors(ctx: DemoContext, frame: Lighting2DFrame, vectors: SpecularVectors): void {
+    const canvas = ctx.canvas, view = ctx.view2D;
+    const origin = frame.surfaceOrigin;
+    canvas.drawLine(view.transformWorldToCanvas(origin), view.transformWorldToCanvas(vec2.scaleAndAdd(vec2.create(), origin, vectors.v, 4)), '#ddd', 2);
+    drawVector(ctx, origin, vectors.l, 0.45, frame.lightDirHitColor, 'L');
+    if (vectors.lit)
+        drawVector(ctx, origin, vectors.r, 0.45, phongColor, 'R');
+    drawVector(ctx, origin, vectors.v, 0.3, eyeColor, 'V');
+    drawVector(ctx, origin, vectors.h, 0.3, blinnPhongColor, 'H');
+}
+
+// Each ray that hits the surface leaves it in the mirror direction, brighter the more directly it heads
+// for the eye.
+function drawReflectedRays(ctx: DemoContext, state: SpecularState, frame: Lighting2DFrame, hitPositions: number[]): void {
+    const canvas = ctx.canvas, view = ctx.view2D;
+    for (const t of hitPositions) {
+        const hit = vec2.lerp(vec2.create(), frame.surfaceA, frame.surfaceB, t);
+        const vectors = computeSpecularVectors(state, hit);
+        if (!vectors.lit)
+            continue;
+
+        const color = linearColorLerp('#cccccc', phongColor, computePhong(state, vectors));
+        const a = vec2.scaleAndAdd(vec2.create(), hit, vectors.r, 0.02);
+        const b = vec2.scaleAndAdd(vec2.create(), hit, vectors.r, 0.6);
+        canvas.drawArrow(view.transformWorldToCanvas(a), view.transformWorldToCanvas(b), color, frame.lightDirLineWidth);
+    }
+}
+
+function drawSpecularReadout(ctx: DemoContext, state: SpecularState, vectors: SpecularVectors): void {
+    const canvas = ctx.canvas;
+    const canvasPosition = ctx.view2D.transformWorldToCanvas(vec2.fromValues(0.0, -0.65));
+
+    canvas.fillRect(0, canvasPosition[1] - canvas.getSize(50), canvas.width, canvas.height, 'rgba(255, 255, 255, 0.7)');
+
+    const n = state.specularShininess.toFixed(0);
+    const rv = vec2.dot(vectors.r, vectors.v), nh = vec2.dot(state.surfaceNormal, vectors.h);
+    const phong = computePhong(state, vectors).toFixed(4), blinnPhong = computeBlinnPhong(state, vectors).toFixed(4);
+    const angleRV = (Math.acos(clamp(rv, -1, 1)) * 180 / Math.PI).toFixed(0), angleNH = (Math.acos(clamp(nh, -1, 1)) * 180 / Math.PI).toFixed(0);
+
+    const dot = (a: string, b: string) => [hat(variable(a)), ' · ', hat(variable(b))];
+    const power = (a: string, b: string) => superscript(['(', dot(a, b), ')'], n);
+    drawFormula(canvas, ['Phong: ', dot('R', 'V'), ` = ${rv.toFixed(4)}    `, power('R', 'V'), ` = ${phong}`], canvasPosition[0], canvasPosition[1], phongColor, 24, 'center');
+    canvasPosition[1] += canvas.getSize(40);
+    drawFormula(canvas, ['Blinn-Phong: ', dot('N', 'H'), ` = ${nh.toFixed(4)}    `, power('N', 'H'), ` = ${blinnPhong}`], canvasPosition[0], canvasPosition[1], blinnPhongColor, 24, 'center');
+    canvasPosition[1] += canvas.getSize(40);
+    canvas.drawText(`Angle between R and V: ${angleRV}°  between N and H: ${angleNH}°`, canvasPosition[0], canvasPosition[1], '#333', 24, 'center');
+
+    ctx.announce(`Shininess ${n}. Phong ${phong}, Blinn-Phong ${blinnPhong}. Angle between reflection and eye ${angleRV} degrees, between normal and half vector ${angleNH} degrees`);
+}
+
+function drawShininessSlider(ctx: DemoContext, state: SpecularState, showLightRays: boolean): void {
+    const canvas = ctx.canvas, ui = ctx.ui;
+    // Under the light ray stepper, when there is one.
+    if (showLightRays)
+        drawLightRayStepper(ctx, state);
+    ui.beginColumn(canvas.getSize(200), canvas.getSize(showLightRays ? 50 + uiStyle.rowHeight : 50));
+    state.specularShininess = ui.slider('Shininess', state.specularShininess, { min: 1, max: 128, step: 1, format: (v) => v.toFixed(0) });
+    ui.endColumn();
+}
+
+// The directional light's rays bouncing off the surface, with the eye looking at it.
+export const specularDemo: Demo<SpecularState> = {
+    id: 'Specular',
+    title: 'Specular Reflection',
+    stateDefault: specularStateDefault,
+    stateRules: specularStateRules,
+
+    update(ctx, state) {
+        const frame = beginLighting2D(ctx, state, { showSurface: true, showSurfaceNormal: true, showLightRayDir: true, showLightRayPos: false });
+        const count = drawDirectionalLightRays(ctx, state, frame, true);
+        drawReflectedRays(ctx, state, frame, count.hitPositions);
+        drawSurfaceNormal(ctx, state, frame);
+        drawSurface(ctx, frame);
+
+        const vectors = computeSpecularVectors(state, frame.surfaceOrigin);
+        drawSpecularVectors(ctx, frame, vectors);
+        updateEyeHandle(ctx, state);
+        drawSpecularReadout(ctx, state, vectors);
+    },
+
+    widgets(ctx, state) {
+        drawShininessSlider(ctx, state, true);
+    },
+};
+
+// How bright the highlight is in every direction the eye could look from, as a polar plot around the
+// surface origin. The Phong lobe is centered on R. The Blinn-Phong one is wider for the same shininess,
+// and stretches out along the surface as the light gets lower.
+function drawLobes(ctx: DemoContext, state: SpecularState, frame: Lighting2DFrame): void {
+    const canvas = ctx.canvas, view = ctx.view2D;
+    const lobeSize = 0.7;
+    const tangent = perpL(state.surfaceNormal);
+    const lobes = [
+        { label: 'Phong', color: phongColor, f: (vectors: SpecularVectors) => computePhong(state, vectors) },
+        { label: 'Blinn-Phong', color: blinnPhongColor, f: (vectors: SpecularVectors) => computeBlinnPhong(state, vectors) },
+    ];
+
+    const sampleCount = 180;
+    lobes.forEach((lobe, i) => {
+        let prev: vec2 | null = null;
+        for (let j = 0; j <= sampleCount; j++) {
+            // Every direction in front of the surface, from one end of it round to the other.
+            const angle = j / sampleCount * Math.PI;
+            const dir = vec2.scale(vec2.create(), tangent, Math.cos(angle));
+            vec2.scaleAndAdd(dir, dir, state.surfaceNormal, Math.sin(angle));
+
+            const eyePos = vec2.add(vec2.create(), frame.surfaceOrigin, dir);
+            const value = lobe.f(computeSpecularVectors(state, frame.surfaceOrigin, eyePos));
+            const p = view.transformWorldToCanvas(vec2.scaleAndAdd(vec2.create(), frame.surfaceOrigin, dir, value * lobeSize));
+            if (prev !== null)
+                canvas.drawLine(prev, p, lobe.color, 3);
+            prev = p;
+        }
+
+        canvas.drawText(lobe.label, canvas.width - canvas.getSize(40), canvas.getSize(60 + i * 36), lobe.color, 24, 'right');
+    });
+}
+
+// The shape of the highlight: Phong and Blinn-Phong plotted over every direction the eye could be in.
+export const specularLobeDemo: Demo<SpecularState> = {
+    id: 'SpecularLobe',
+    title: 'Specular Lobes',
+    stateDefault: specularStateDefault,
+    stateRules: specularStateRules,
+
+    update(ctx, state) {
+        const frame = beginLighting2D(ctx, state, { showSurface: true, showSurfaceNormal: true, showLightRayDir: true, showLightRayPos: false });
+        drawSurfaceNormal(ctx, state, frame);
+        drawSurface(ctx, frame);
+        drawLobes(ctx, state, frame);
+
+        const vectors = computeSpecularVectors(state, frame.surfaceOrigin);
+        drawSpecularVectors(ctx, frame, vectors);
+        updateEyeHandle(ctx, state);
+        drawSpecularReadout(ctx, state, vectors);
+    },
+
+    widgets(ctx, state) {
+        drawShininessSlider(ctx, state, false);
+    },
+};
@@ -0,0 +1,44 @@
+
+import { vec2 } from 'gl-matrix';
+import { Demo } from '../demo';
+import { drawFormula, hat, matrix, measureFormula, variable } from '../formula';
+import { Lighting2DState, beginLighting2D, drawSurface, drawSurfaceNormal, lighting2DStateDefault, lighting2DStateRules } from './lighting2D';
+
+// The surface normal on its own, on top of a grid, with its coordinates.
+export const surfaceNormalDemo: Demo<Lighting2DState> = {
+    id: 'SurfaceNormal',
+    title: 'Surface Normal',
+    stateDefault: lighting2DStateDefault,
+    stateRules: lighting2DStateRules,
+
+    update(ctx, state) {
+        const frame = beginLighting2D(ctx, state, { showSurface: true, showSurfaceNormal: true, showLightRayDir: false, showLightRayPos: false });
+        const canvas = ctx.canvas, view = ctx.view2D;
+        const { surfaceOrigin, surfaceSize } = frame;
+
+        canvas.drawGridPlane(view.transformWorldToCanvas(vec2.create()), vec2.fromValues(1, 0), vec2.fromValues(0, 1), surfaceSize * view.viewport[0] * 4, 40, '#eee', 1);
+
+        canvas.drawLine(view.transformWorldToCanvas(vec2.create()), view.transformWorldToCanvas(vec2.fromValues(surfaceSize, 0)), '#a66', 2);
+        canvas.drawLine(view.transformWorldToCanvas(vec2.create()), view.transformWorldToCanvas(vec2.fromValues(0, surfaceSize)), '#6a6', 2);
+
+        canvas.drawCircle(view.transformWorldToCanvas(surfaceOrigin), surfaceSize * view.viewport[0], '#ccc', 2);
+        drawSurfaceNormal(ctx, state, frame);
+
+        const normalX = state.surfaceNormal[0].toFixed(3);
+        const normalY = state.surfaceNormal[1].toFixed(3);
+        const formula = [hat(variable('N')), ' = ', matrix([[normalX], [normalY]])];
+        const metrics = measureFormula(canvas, formula);
+
+        const textPos = vec2.scaleAndAdd(vec2.create(), surfaceOrigin, state.surfaceNormal, surfaceSize);
+        const canvasPosition = view.transformWorldToCanvas(textPos);
+
+        // Out past the tip of the normal, so that the readout doesn't cover it.
+        canvasPosition[0] += state.surfaceNormal[0] * (metrics.width + canvas.getSize(20)) * 0.5;
+        canvasPosition[1] += state.surfaceNormal[1] * -(metrics.ascent + metrics.descent + canvas.getSize(20)) * 0.5;
+
+        drawFormula(canvas, formula, canvasPosition[0], canvasPosition[1], '#333', 24, 'center', 'middle');
+        ctx.announce(`Surface normal ${normalX}, ${normalY}`);
+
+        drawSurface(ctx, frame);
+    },
+};
@@ -0,0 +1,380 @@
+
+import { ReadonlyMat4, ReadonlyVec4, mat4, vec2, vec3, vec4 } from 'gl-matrix';
+import { Demo, DemoContext } from '../demo';
+import { Formula, drawFormula, subscript, variable } from '../formula';
+import { HandleState } from '../handles';
+import { createBoxMesh } from '../mesh';
+import { StateRules } from '../state';
+import { uiStyle } from '../ui';
+import { OrbitCameraState, beginFrame3D, drawCameraModeRadio, orbitCameraStateDefault, orbitCameraStateRules } from './orbitCamera';
+import { ProjectionEditState, applyProjectionEdits, drawResetMatrixButton, editedCellColor, isCellEdited, isProjectionEdited, projectionEditStateDefault, projectionEditStateRules, updateMatrixCellHandle } from './projectionEdits';
+
+// Follows one point through every step it takes from the scene to the screen: into view space, into clip
+// space, the divide by w into NDC, and out to the canvas. Each step is shown as the sum it works out, with
+// the cells that go into the row under the mouse highlighted. The projection matrix can be edited cell by
+// cell, to see what each of its terms does to the scene.
+
+export type PipelineStage = 'view' | 'clip' | 'ndc' | 'canvas';
+
+// The edits are made to the camera's projection matrix.
+export interface TransformPipelineState extends OrbitCameraState, ProjectionEditState {
+    pipelinePoint: Float32Array;
+    pipelineStage: string;
+    pipelineShowPanel: boolean;
+}
+
+const transformPipelineStateDefault: TransformPipelineState = {
+    ... orbitCameraStateDefault,
+    ... projectionEditStateDefault,
+    pipelinePoint: new Float32Array([20, 15, -10]),
+    pipelineStage: 'clip',
+    pipelineShowPanel: true,
+};
+
+const pipelineStages: readonly PipelineStage[] = ['view', 'clip', 'ndc', 'canvas'];
+
+const transformPipelineStateRules: StateRules<TransformPipelineState> = {
+    ... orbitCameraStateRules,
+    ... projectionEditStateRules,
+    pipelinePoint: { min: -200, max: 200 },
+    pipelineStage: { values: () => pipelineStages },
+};
+
+const boxMesh = createBoxMesh(vec3.fromValues(0, 10, 0), vec3.fromValues(20, 20, 20));
+const pointColor = '#ff8800';
+const inputColor = 'rgba(51, 153, 255, 0.25)';
+const outputColor = 'rgba(255, 136, 0, 0.3)';
+
+// The point at every step. The canvas position is in canvas pixels, with the depth from the NDC.
+interface PipelinePoint {
+    world: vec4;
+    view: vec4;
+    clip: vec4;
+    ndc: vec4;
+    canvas: vec3;
+}
+
+function computePipelinePoint(ctx: DemoContext, state: TransformPipelineState): PipelinePoint {
+    const view3D = ctx.view3D;
+    const p = state.pipelinePoint;
+    const world = vec4.fromValues(p[0], p[1], p[2], 1);
+    const view = vec4.transformMat4(vec4.create(), world, view3D.viewFromWorld3D);
+    const clip = vec4.transformMat4(vec4.create(), view, view3D.clipFromView3D);
+    const ndc = vec4.fromValues(clip[0] / clip[3], clip[1] / clip[3], clip[2] / clip[3], 1);
+    const canvas = view3D.transformClipToCanvas(clip);
+    return { world, view, clip, ndc, canvas };
+}
+
+function formatVector(v: ArrayLike<number>): string {
+    return `(${Array.from(v, (n) => n.toFixed(2)).join(', ')})`;
+}
+
+// Moves the camera, then swaps in the edited projection matrix. Returns the projection as it was, which
+// the edits are made against.
+function beginPipelineFrame(ctx: DemoContext, state: TransformPipelineState): mat4 {
+    beginFrame3D(ctx, state);
+    const view = ctx.view3D;
+    const projection = mat4.clone(view.clipFromView3D);
+    view.setClipFromView3D(applyProjectionEdits(mat4.create(), projection, state));
+    return projection;
+}
+
+// Where the ground's grid ends, on either side of the origin.
+const groundHalfSize = 50;
+
+// A press that may turn out to be a click, rather than the start of a drag.
+interface ScenePick {
+    pressPosition: vec2 | null;
+    mouseButtonLast: number;
+}
+
+// Where the ray under the canvas position meets the ground, if it does inside the grid.
+function pickGround(ctx: DemoContext, canvasPosition: vec2): vec3 | null {
+    const view = ctx.view3D;
+    // The far plane can be infinitely far away, so the ray is cast through a point at depth 0 instead.
+    const near = view.transformCanvasToWorld3D(canvasPosition, -1), middle = view.transformCanvasToWorld3D(canvasPosition, 0);
+    const t = near[1] / (near[1] - middle[1]);
+    if (!(t >= 0 && Number.isFinite(t)))
+        return null;
+
+    const hit = vec3.lerp(vec3.create(), near, middle, t);
+    return Math.abs(hit[0]) <= groundHalfSize && Math.abs(hit[2]) <= groundHalfSize ? hit : null;
+}
+
+// Clicking the box or the ground moves the point there. Only presses the camera would have taken count,
+// and only if the mouse is let go where it was pressed, so that orbiting doesn't pick anything. Call it
+// after the box is drawn, so its depth is there to read.
+function updateScenePick(ctx: DemoContext, state: TransformPipelineState): void {
+    const canvas = ctx.canvas;
+    if (!ctx.interactive || mat4.determinant(ctx.view3D.clipFromWorld3D) === 0)
+        return;
+
+    const pick = ctx.transient<ScenePick>('Scene Pick', () => ({ pressPosition: null, mouseButtonLast: 0 }));
+    const pressed = canvas.mouseButton !== 0 && pick.mouseButtonLast === 0;
+    const released = canvas.mouseButton === 0 && pick.mouseButtonLast !== 0;
+    pick.mouseButtonLast = canvas.mouseButton;
+
+    if (pressed)
+        pick.pressPosition = ctx.handles.hot === 'Camera' && !ctx.ui.wantsMouse ? vec2.clone(canvas.mouse) : null;
+    if (!released || pick.pressPosition === null)
+        return;
+
+    const clicked = vec2.distance(pick.pressPosition, canvas.mouse) <= canvas.getSize(8);
+    pick.pressPosition = null;
+    if (!clicked)
+        return;
+
+    const point = ctx.view3D.pickSolid3D(canvas.mouse) ?? pickGround(ctx, canvas.mouse);
+    if (point !== null)
+        state.pipelinePoint.set(point);
+}
+
+// The point is dragged across the screen at the depth it's at. It can't be while it's behind the camera,
+// or when the edits leave nothing to undo the projection with.
+function updatePointHandle(ctx: DemoContext, state: TransformPipelineState): HandleState | null {
+    const view = ctx.view3D, canvas = ctx.canvas;
+    const clipPosition = view.transformWorld3DToClip(state.pipelinePoint);
+    if (clipPosition[3] <= 0 || mat4.determinant(view.clipFromWorld3D) === 0)
+        return null;
+
+    const canvasPosition = view.transformClipToCanvas(clipPosition);
+    const target = vec2.fromValues(canvasPosition[0], canvasPosition[1]);
+    const handle = ctx.handles.handle({
+        id: 'Picked Point', shapes: [{ type: 'point', center: vec2.clone(target) }], hitRadius: canvas.getSize(16), priority: 1,
+        behavior: { type: 'position', target, keyStep: canvas.getSize(10) },
+    });
+    if (target[0] !== canvasPosition[0] || target[1] !== canvasPosition[1])
+        state.pipelinePoint.set(view.transformCanvasToWorld3D(target, canvasPosition[2]));
+    return handle;
+}
+
+function drawPipelineScene(ctx: DemoContext, state: TransformPipelineState, handle: HandleState | null): void {
+    const view = ctx.view3D, canvas = ctx.canvas;
+    view.drawGridPlane3D(vec3.fromValues(0, 0, 0), vec3.fromValues(1, 0, 0), vec3.fromValues(0, 0, 1), groundHalfSize * 2, 10, '#ccc', 3);
+
+    view.beginSolid();
+    view.drawMeshSolid3D(boxMesh, [0.5, 0.78, 0.94, 1]);
+    view.endSolid();
+    updateScenePick(ctx, state);
+
+    // A line down to the ground, to tell how high up the point is.
+    const point = state.pipelinePoint;
+    view.drawLine3D(point, vec3.fromValues(point[0], 0, point[2]), '#999', 2);
+    if (handle?.focused)
+        canvas.drawCircle(view.transformClipToCanvas(view.transformWorld3DToClip(point)) as vec2, canvas.getSize(56), uiStyle.focusColor, 2);
+    view.drawPoint3D(point, pointColor, handle?.hot || handle?.active ? 24 : 16);
+}
+
+interface PanelLayout {
+    x: number;
+    y: number;
+    rowHeight: number;
+    cellWidth: number;
+    // The panel is shrunk to fit beside the scene on small canvases, text included.
+    scale: number;
+}
+
+const stageRows: { label: string, key: keyof PipelinePoint }[] = [
+    { label: 'World', key: 'world' },
+    { label: 'View', key: 'view' },
+    { label: 'Clip', key: 'clip' },
+    { label: 'NDC', key: 'ndc' },
+    { label: 'Canvas', key: 'canvas' },
+];
+
+// The point at every step, with the step being shown highlighted: what goes in, and what comes out.
+function drawStageList(ctx: DemoContext, state: TransformPipelineState, point: PipelinePoint, layout: PanelLayout): void {
+    const canvas = ctx.canvas;
+    const output = pipelineStages.indexOf(state.pipelineStage as PipelineStage) + 1;
+    stageRows.forEach((row, i) => {
+        const y = layout.y + i * layout.rowHeight;
+        const highlight = i === output ? outputColor : i === output - 1 ? inputColor : null;
+        if (highlight !== null)
+            canvas.fillRect(layout.x, y, layout.cellWidth * 7, layout.rowHeight, highlight);
+        const color = highlight !== null ? '#333' : '#999';
+        canvas.drawText(row.label, layout.x + canvas.getSize(10 * layout.scale), y + layout.rowHeight / 2, color, 24 * layout.scale, 'left', 'middle');
+        canvas.drawText(formatVector(point[row.key]), layout.x + layout.cellWidth * 1.5, y + layout.rowHeight / 2, color, 24 * layout.scale, 'left', 'middle');
+    });
+}
+
+// The row of the sum under the mouse, if there is one.
+function findHoveredRow(ctx: DemoContext, layout: PanelLayout, columnCount: number): number {
+    const mouse = ctx.canvas.mouse;
+    if (!ctx.interactive || ctx.ui.wantsMouse || mouse[0] < layout.x || mouse[0] > layout.x + layout.cellWidth * columnCount)
+        return -1;
+    const row = Math.floor((mouse[1] - layout.y) / layout.rowHeight);
+    return row >= 0 && row < 4 ? row : -1;
+}
+
+// Draws a number right-aligned in the cell at the given column and row, over a highlight if it has one.
+function drawCell(ctx: DemoContext, layout: PanelLayout, column: number, row: number, n: number, color: string, highlight: string | null): void {
+    const canvas = ctx.canvas;
+    const x = layout.x + column * layout.cellWidth, y = layout.y + row * layout.rowHeight;
+    if (highlight !== null)
+        canvas.fillRect(x, y, layout.cellWidth, layout.rowHeight, highlight);
+    canvas.drawText(n.toFixed(2), x + layout.cellWidth - canvas.getSize(10 * layout.scale), y + layout.rowHeight / 2, color, 24 * layout.scale, 'right', 'middle');
+}
+
+function drawBracket(ctx: DemoContext, layout: PanelLayout, column: number, columnCount: number): void {
+    const canvas = ctx.canvas;
+    canvas.strokeRect(layout.x + column * layout.cellWidth, layout.y, columnCount * layout.cellWidth, layout.rowHeight * 4, '#999', 2);
+}
+
+function drawOperator(ctx: DemoContext, layout: PanelLayout, column: number, text: string): void {
+    const canvas = ctx.canvas;
+    canvas.drawText(text, layout.x + (column + 0.5) * layout.cellWidth, layout.y + layout.rowHeight * 2, '#333', 32 * layout.scale, 'center', 'middle');
+}
+
+// A 4x4 matrix times a vector, laid out as a grid. Each cell of the matrix in the projection step is a
+// handle that can be dragged sideways to edit it.
+function drawMatrixStep(ctx: DemoContext, state: TransformPipelineState, layout: PanelLayout, m: ReadonlyMat4, input: ReadonlyVec4, output: ReadonlyVec4, projection: ReadonlyMat4 | null): Formula[] {
+    const hoveredRow = findHoveredRow(ctx, layout, 8);
+
+    for (let row = 0; row < 4; row++) {
+        for (let column = 0; column < 4; column++) {
+            // gl-matrix stores matrices column by column.
+            const i = column * 4 + row;
+            const edited = projection !== null && isCellEdited(state, row, column);
+            let hot = false;
+            if (projection !== null) {
+                const cell = { x: layout.x + column * layout.cellWidth, y: layout.y + row * layout.rowHeight, width: layout.cellWidth, height: layout.rowHeight };
+                const handle = updateMatrixCellHandle(ctx, state, projection, row, column, cell);
+                hot = handle.hot || handle.active;
+            }
+            const color = edited ? editedCellColor : m[i] !== 0 || hot ? '#333' : '#aaa';
+            drawCell(ctx, layout, column, row, m[i], color, row === hoveredRow || hot ? outputColor : null);
+        }
+        drawCell(ctx, layout, 5, row, input[row], '#333', hoveredRow >= 0 ? inputColor : null);
+        drawCell(ctx, layout, 7, row, output[row], '#333', row === hoveredRow ? outputColor : null);
+    }
+    drawBracket(ctx, layout, 0, 4);
+    drawBracket(ctx, layout, 5, 1);
+    drawBracket(ctx, layout, 7, 1);
+    drawOperator(ctx, layout, 4, '×');
+    drawOperator(ctx, layout, 6, '=');
+
+    if (hoveredRow < 0)
+        return ['Hover a row to see how it adds up'];
+    const terms = [0, 1, 2, 3].map((column) => `${m[column * 4 + hoveredRow].toFixed(2)} × ${input[column].toFixed(2)}`);
+    return [`${terms.join(' + ')} = ${output[hoveredRow].toFixed(2)}`];
+}
+
+function drawDivideStep(ctx: DemoContext, layout: PanelLayout, point: PipelinePoint): Formula[] {
+    const hoveredRow = findHoveredRow(ctx, layout, 4);
+    for (let row = 0; row < 4; row++) {
+        // w is what everything is divided by.
+        drawCell(ctx, layout, 0, row, point.clip[row], '#333', row === hoveredRow || row === 3 ? inputColor : null);
+        drawCell(ctx, layout, 3, row, point.ndc[row], '#333', row === hoveredRow ? outputColor : null);
+    }
+    drawBracket(ctx, layout, 0, 1);
+    drawBracket(ctx, layout, 3, 1);
+    drawOperator(ctx, layout, 1, '÷ w');
+    drawOperator(ctx, layout, 2, '=');
+
+    const w = point.clip[3];
+    const lines: Formula[] = w <= 0 ? ['w is negative: the point is behind the camera'] : [];
+    if (hoveredRow < 0)
+        return [... lines, 'Hover a row to see how it adds up'];
+    const axis = 'xyzw'[hoveredRow];
+    return [... lines, [subscript(variable(axis), 'ndc'), ' = ', subscript(variable(axis), 'clip'), ' ÷ ', subscript(variable('w'), 'clip'), ` = ${point.clip[hoveredRow].toFixed(2)} ÷ ${w.toFixed(2)} = ${point.ndc[hoveredRow].toFixed(2)}`]];
+}
+
+// NDC goes from -1 to 1 across the screen, with +Y up, and the canvas from 0 to its size, with +Y down.
+function drawViewportStep(ctx: DemoContext, point: PipelinePoint): Formula[] {
+    const canvas = ctx.canvas;
+    const ndc = point.ndc;
+    return [
+        [subscript(variable('x'), 'canvas'), ` = (${ndc[0].toFixed(2)} + 1) × ${canvas.width} / 2 = ${point.canvas[0].toFixed(2)}`],
+        [subscript(variable('y'), 'canvas'), ` = ${canvas.height} - (${ndc[1].toFixed(2)} + 1) × ${canvas.height} / 2 = ${point.canvas[1].toFixed(2)}`],
+        `Depth stays ${ndc[2].toFixed(2)}, from -1 at the near plane to 1 at the far plane`,
+    ];
+}
+
+const stepTitles: Record<PipelineStage, string> = {
+    view: 'View = viewFromWorld3D × World',
+    clip: 'Clip = clipFromView3D × View',
+    ndc: 'NDC = Clip ÷ w',
+    canvas: 'Canvas = the viewport transform of NDC',
+};
+
+function drawPipelinePanel(ctx: DemoContext, state: TransformPipelineState, point: PipelinePoint, projection: ReadonlyMat4): void {
+    const canvas = ctx.canvas, view = ctx.view3D;
+    const stage = state.pipelineStage as PipelineStage;
+    // It keeps to the right of the canvas, leaving the scene in the middle free to orbit around and click on.
+    const margin = canvas.getSize(30);
+    const scale = Math.min(1, canvas.width * 0.4 / canvas.getSize(740), (canvas.height - margin * 2) / canvas.getSize(580));
+    const size = (n: number) => canvas.getSize(n * scale);
+    const width = size(740), height = size(580);
+    const x = canvas.width - width - margin, y = margin;
+    canvas.fillRect(x, y, width, height, 'rgba(255, 255, 255, 0.7)');
+    canvas.strokeRect(x, y, width, height, '#333333CC', 4);
+
+    const listLayout = { x: x + size(10), y: y + size(20), rowHeight: size(40), cellWidth: size(90), scale };
+    const rowHeight = listLayout.rowHeight;
+    drawStageList(ctx, state, point, listLayout);
+
+    const stepY = listLayout.y + rowHeight * 5 + size(50);
+    canvas.drawText(stepTitles[stage], listLayout.x, stepY - size(15), '#333', 24 * scale, 'left');
+    const stepLayout = { ... listLayout, y: stepY };
+    let lines: Formula[];
+    if (stage === 'view')
+        lines = drawMatrixStep(ctx, state, stepLayout, view.viewFromWorld3D, point.world, point.view, null);
+    else if (stage === 'clip')
+        lines = drawMatrixStep(ctx, state, stepLayout, view.clipFromView3D, point.view, point.clip, projection);
+    else if (stage === 'ndc')
+        lines = drawDivideStep(ctx, stepLayout, point);
+    else
+        lines = drawViewportStep(ctx, point);
+
+    // The matrix steps take up the space the viewport's sums go in.
+    let lineY = stage === 'canvas' ? stepY + rowHeight / 2 : stepY + rowHeight * 4 + size(40);
+    if (stage === 'clip' && isProjectionEdited(state))
+        lines.push('Edited cells are red. Reset Matrix puts them back');
+    for (const line of lines) {
+        drawFormula(canvas, line, listLayout.x, lineY, '#333', 24 * scale, 'left', 'middle');
+        lineY += rowHeight;
+    }
+}
+
+function drawTransformPipeline(ctx: DemoContext, state: TransformPipelineState): void {
+    const projection = beginPipelineFrame(ctx, state);
+    const handle = updatePointHandle(ctx, state);
+    drawPipelineScene(ctx, state, handle);
+
+    const point = computePipelinePoint(ctx, state);
+    if (state.pipelineShowPanel)
+        drawPipelinePanel(ctx, state, point, projection);
+    ctx.announce(stageRows.map((row) => `${row.label} ${formatVector(point[row.key])}`).join(', '));
+}
+
+function drawTransformPipelineWidgets(ctx: DemoContext, state: TransformPipelineState): void {
+    const canvas = ctx.canvas, ui = ctx.ui;
+    ui.beginColumn(canvas.getSize(200), canvas.getSize(50));
+    state.pipelineStage = ui.radio('Step', state.pipelineStage as PipelineStage, [
+        { value: 'view', label: 'World to View' },
+        { value: 'clip', label: 'View to Clip' },
+        { value: 'ndc', label: 'Clip to NDC' },
+        { value: 'canvas', label: 'NDC to Canvas' },
+    ]);
+    state.pipelineShowPanel = ui.toggle('Show Steps', state.pipelineShowPanel);
+    drawResetMatrixButton(ctx, state);
+    drawCameraModeRadio(ctx, state);
+    ui.endColumn();
+}
+
+// A point followed from the scene to the screen, one matrix at a time, through a projection that can be
+// edited by hand.
+export const transformPipelineDemo: Demo<TransformPipelineState> = {
+    id: 'TransformPipeline',
+    title: 'Transform Pipeline',
+    stateDefault: transformPipelineStateDefault,
+    stateRules: transformPipelineStateRules,
+
+    update(ctx, state) {
+        drawTransformPipeline(ctx, state);
+    },
+
+    widgets(ctx, state) {
+        drawTransformPipelineWidgets(ctx, state);
+    },
+};
@@ -0,0 +1,66 @@
+
+import { ReadonlyVec2, vec2 } from 'gl-matrix';
+
+export class PositionDrag {
+    private offset = vec2.create();
+
+    constructor(public out: vec2, dragStart: ReadonlyVec2, private mouseButtons: number) {
+        vec2.sub(this.offset, this.out, dragStart);
+    }
+
+    public update(mouse: ReadonlyVec2, mouseButtons: number): boolean {
+        vec2.add(this.out, mouse, this.offset);
+
+        return this.mouseButtons !== mouseButtons;
+    }
+}
+
+export class NormalDrag {
+    private origin = vec2.create();
+    private dragStart = vec2.create();
+    private normalStart = vec2.create();
+
+    constructor(public out: vec2, origin: ReadonlyVec2, dragStart: ReadonlyVec2, private mouseButtons: number) {
+        vec2.copy(this.normalStart, out);
+        vec2.copy(this.origin, origin);
+        vec2.copy(this.dragStart, dragStart);
+    }
+
+    public update(mouse: ReadonlyVec2, mouseButtons: number): boolean {
+        const toDragStart = vec2.sub(vec2.create(), this.dragStart, this.origin);
+        vec2.normalize(toDragStart, toDragStart);
+
+        const toMouse = vec2.sub(vec2.create(), mouse, this.origin);
+        vec2.normalize(toMouse, toMouse);
+
+        const sin = toDragStart[0] * toMouse[1] - toDragStart[1] * toMouse[0];
+        const cos = toDragStart[0] * toMouse[0] + toDragStart[1] * toMouse[1];
+
+        // apply rotation
+        this.out[0] = this.normalStart[0] * cos - this.normalStart[1] * sin;
+        this.out[1] = this.normalStart[0] * sin + this.normalStart[1] * cos;
+
+        return this.mouseButtons !== mouseButtons;
+    }
+}
+
+// Changes a number by how far the mouse moves along an axis. The axis is scaled to the change in value
+// per unit the mouse moves.
+export class SliderDrag {
+    private valueStart: number;
+    private dragStart = vec2.create();
+
+    constructor(public value: number, private axis: ReadonlyVec2, dragStart: ReadonlyVec2, private mouseButtons: number) {
+        this.valueStart = value;
+        vec2.copy(this.dragStart, dragStart);
+    }
+
+    public update(mouse: ReadonlyVec2, mouseButtons: number): boolean {
+        const delta = vec2.sub(vec2.create(), mouse, this.dragStart);
+        this.value = this.valueStart + vec2.dot(delta, this.axis);
+
+        return this.mouseButtons !== mouseButtons;
+    }
+}
+
+export type Drag = PositionDrag | NormalDrag | SliderDrag;
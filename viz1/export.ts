@@ -0,0 +1,48 @@
+
+import { Canvas } from './canvas';
+import { CanvasBackend, SVGBackend } from './render';
+
+export type RenderFunc = (canvas: Canvas) => void;
+
+// Picks the pixel ratio that makes a frame of the given size look like the on-screen one, scaled up
+// or down. The 2D viewport is sized from the shorter side, so everything else follows that too.
+export function getExportPixelRatio(source: Canvas, width: number, height: number): number {
+    const sourceSize = Math.min(source.width, source.height);
+    if (sourceSize <= 0)
+        return source.pixelRatio;
+
+    return source.pixelRatio * Math.min(width, height) / sourceSize;
+}
+
+export function renderSVG(render: RenderFunc, width: number, height: number, pixelRatio: number): string {
+    const backend = new SVGBackend(width, height);
+    render(new Canvas(backend, pixelRatio));
+    return backend.getSVG();
+}
+
+export function renderPNG(render: RenderFunc, width: number, height: number, pixelRatio: number): Promise<Blob> {
+    const element = document.createElement('canvas');
+    element.width = width;
+    element.height = height;
+
+    render(new Canvas(new CanvasBackend(element.getContext('2d')!), pixelRatio));
+
+    return new Promise((resolve, reject) => {
+        element.toBlob((blob) => {
+            if (blob !== null)
+                resolve(blob);
+            else
+                reject(new Error(`Could not encode a ${width}x${height} PNG`));
+        }, 'image/png');
+    });
+}
+
+export function downloadBlob(blob: Blob, filename: string): void {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    a.click();
+    // Give the browser a moment to start the download before letting go of the blob.
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
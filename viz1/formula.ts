@@ -0,0 +1,324 @@
+
+import { Canvas } from './canvas';
+import { RenderBackend, TextStyle } from './render';
+
+// Small math formulas, for the readouts on the canvas: scripts, fractions, vectors with arrows or hats, and
+// matrices. A formula is a tree made with the functions below, and plain strings, where Greek letters can
+// be written by name, like '\\theta'. An array lays its parts out in a row.
+
+export type Formula =
+    | string
+    | readonly Formula[]
+    | { type: 'variable', name: string }
+    | { type: 'script', base: Formula, sub?: Formula, sup?: Formula }
+    | { type: 'fraction', numerator: Formula, denominator: Formula }
+    | { type: 'accent', accent: 'arrow' | 'hat', base: Formula }
+    | { type: 'matrix', rows: readonly (readonly Formula[])[] }
+    | { type: 'color', color: string, body: Formula }
+    | { type: 'mark', id: string, body: Formula };
+
+// Variables are set in italics, like they are on paper.
+export function variable(name: string): Formula {
+    return { type: 'variable', name };
+}
+
+export function subscript(base: Formula, sub: Formula): Formula {
+    return { type: 'script', base, sub };
+}
+
+export function superscript(base: Formula, sup: Formula): Formula {
+    return { type: 'script', base, sup };
+}
+
+export function fraction(numerator: Formula, denominator: Formula): Formula {
+    return { type: 'fraction', numerator, denominator };
+}
+
+// A vector, and a unit vector.
+export function arrow(base: Formula): Formula {
+    return { type: 'accent', accent: 'arrow', base };
+}
+
+export function hat(base: Formula): Formula {
+    return { type: 'accent', accent: 'hat', base };
+}
+
+// Cells are lined up on their right edges, so that columns of numbers line up on their decimal points.
+export function matrix(rows: readonly (readonly Formula[])[]): Formula {
+    return { type: 'matrix', rows };
+}
+
+export function colored(color: string, body: Formula): Formula {
+    return { type: 'color', color, body };
+}
+
+// Draws the same as the body, but drawFormula and locateFormulaMarks report where it went, e.g. to put a
+// handle over it.
+export function marked(id: string, body: Formula): Formula {
+    return { type: 'mark', id, body };
+}
+
+const greekLetters: Record<string, string> = {
+    alpha: 'α', beta: 'β', gamma: 'γ', delta: 'δ', epsilon: 'ε', zeta: 'ζ', eta: 'η', theta: 'θ',
+    iota: 'ι', kappa: 'κ', lambda: 'λ', mu: 'μ', nu: 'ν', xi: 'ξ', pi: 'π', rho: 'ρ', sigma: 'σ',
+    tau: 'τ', upsilon: 'υ', phi: 'φ', chi: 'χ', psi: 'ψ', omega: 'ω',
+    Gamma: 'Γ', Delta: 'Δ', Theta: 'Θ', Lambda: 'Λ', Xi: 'Ξ', Pi: 'Π', Sigma: 'Σ', Phi: 'Φ', Psi: 'Ψ', Omega: 'Ω',
+};
+
+// Anything after a backslash that isn't the name of a letter is left as it is.
+function expandGreekLetters(text: string): string {
+    return text.replace(/\\([A-Za-z]+)/g, (match, name: string) => greekLetters[name] ?? match);
+}
+
+export interface FormulaMetrics {
+    width: number;
+    // How far the formula goes above and below its baseline.
+    ascent: number;
+    descent: number;
+}
+
+// Where a marked part of a formula went, in canvas pixels.
+export interface FormulaRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+// What a laid out formula is drawn into. Without a backend, nothing is drawn, and only the marks are found.
+interface FormulaTarget {
+    backend: RenderBackend | null;
+    marks: Map<string, FormulaRect>;
+}
+
+// A laid out formula, in canvas pixels, which draws itself with its baseline starting at x, y.
+interface FormulaBox extends FormulaMetrics {
+    draw(target: FormulaTarget, x: number, y: number, color: string): void;
+}
+
+// Fonts don't say how tall they are through measureText, so these are guesses in ems, which are close
+// enough for sans-serif.
+const pixelsPerPoint = 4 / 3;
+const textAscent = 0.75;
+const textDescent = 0.25;
+// Where fraction bars and the middle of matrices go, above the baseline: about the middle of an 'x'.
+const axisHeight = 0.3;
+const scriptScale = 0.7;
+const fractionScale = 0.85;
+
+function layoutRow(boxes: FormulaBox[]): FormulaBox {
+    return {
+        width: boxes.reduce((width, box) => width + box.width, 0),
+        ascent: Math.max(0, ... boxes.map((box) => box.ascent)),
+        descent: Math.max(0, ... boxes.map((box) => box.descent)),
+        draw(target, x, y, color) {
+            for (const box of boxes) {
+                box.draw(target, x, y, color);
+                x += box.width;
+            }
+        },
+    };
+}
+
+function layoutText(backend: RenderBackend, text: string, size: number, italic: boolean): FormulaBox {
+    const em = size * pixelsPerPoint;
+    const style = (color: string): TextStyle => ({ color, size, italic });
+    return {
+        width: backend.measureText(text, style('black')),
+        ascent: em * textAscent,
+        descent: em * textDescent,
+        draw(target, x, y, color) {
+            target.backend?.fillText(text, x, y, style(color));
+        },
+    };
+}
+
+function layoutScript(backend: RenderBackend, base: FormulaBox, size: number, sub?: Formula, sup?: Formula): FormulaBox {
+    const em = size * pixelsPerPoint;
+    const subBox = sub !== undefined ? layoutFormula(backend, sub, size * scriptScale) : null;
+    const supBox = sup !== undefined ? layoutFormula(backend, sup, size * scriptScale) : null;
+    const subShift = em * 0.25, supShift = Math.max(em * 0.4, base.ascent - em * 0.35);
+    const gap = em * 0.05;
+    return {
+        width: base.width + gap + Math.max(subBox?.width ?? 0, supBox?.width ?? 0),
+        ascent: Math.max(base.ascent, supBox !== null ? supShift + supBox.ascent : 0),
+        descent: Math.max(base.descent, subBox !== null ? subShift + subBox.descent : 0),
+        draw(target, x, y, color) {
+            base.draw(target, x, y, color);
+            subBox?.draw(target, x + base.width + gap, y + subShift, color);
+            supBox?.draw(target, x + base.width + gap, y - supShift, color);
+        },
+    };
+}
+
+function layoutFraction(backend: RenderBackend, numerator: Formula, denominator: Formula, size: number): FormulaBox {
+    const em = size * pixelsPerPoint;
+    const top = layoutFormula(backend, numerator, size * fractionScale);
+    const bottom = layoutFormula(backend, denominator, size * fractionScale);
+    const padding = em * 0.1, gap = em * 0.12, lineWidth = Math.max(1, em * 0.05);
+    const width = Math.max(top.width, bottom.width) + padding * 2;
+    const axis = em * axisHeight;
+    return {
+        width,
+        ascent: axis + gap + top.descent + top.ascent,
+        descent: gap + bottom.ascent + bottom.descent - axis,
+        draw(target, x, y, color) {
+            const barY = y - axis;
+            target.backend?.strokeLine([x + padding / 2, barY], [x + width - padding / 2, barY], color, lineWidth);
+            top.draw(target, x + (width - top.width) / 2, barY - gap - top.descent, color);
+            bottom.draw(target, x + (width - bottom.width) / 2, barY + gap + bottom.ascent, color);
+        },
+    };
+}
+
+function layoutAccent(accent: 'arrow' | 'hat', base: FormulaBox, size: number): FormulaBox {
+    const em = size * pixelsPerPoint;
+    const gap = em * 0.08, height = em * 0.18, lineWidth = Math.max(1, em * 0.06);
+    return {
+        width: base.width,
+        ascent: base.ascent + gap + height,
+        descent: base.descent,
+        draw(target, x, y, color) {
+            base.draw(target, x, y, color);
+            const backend = target.backend;
+            if (backend === null)
+                return;
+
+            const bottom = y - base.ascent - gap, middle = bottom - height / 2;
+            if (accent === 'arrow') {
+                const right = x + base.width;
+                backend.strokeLine([x, middle], [right - height, middle], color, lineWidth);
+                backend.fillPolygon([[right, middle], [right - height, middle - height / 2], [right - height, middle + height / 2]], color);
+            } else {
+                const center = x + base.width / 2, halfWidth = Math.min(base.width / 2, em * 0.25);
+                backend.strokeLine([center - halfWidth, bottom], [center, bottom - height], color, lineWidth);
+                backend.strokeLine([center, bottom - height], [center + halfWidth, bottom], color, lineWidth);
+            }
+        },
+    };
+}
+
+function layoutMatrix(backend: RenderBackend, rows: readonly (readonly Formula[])[], size: number): FormulaBox {
+    const em = size * pixelsPerPoint;
+    const cells = rows.map((row) => row.map((cell) => layoutFormula(backend, cell, size)));
+    const columnCount = Math.max(0, ... cells.map((row) => row.length));
+    const columnWidths = Array.from({ length: columnCount }, (_, j) => Math.max(0, ... cells.map((row) => row[j]?.width ?? 0)));
+    const rowAscents = cells.map((row) => Math.max(em * textAscent, ... row.map((cell) => cell.ascent)));
+    const rowDescents = cells.map((row) => Math.max(em * textDescent, ... row.map((cell) => cell.descent)));
+
+    const columnGap = em * 0.8, rowGap = em * 0.3;
+    // The brackets stick out a little past the cells, and each has a short serif pointing in.
+    const bracketPadding = em * 0.3, bracketOverhang = em * 0.1, serif = em * 0.25, lineWidth = Math.max(1, em * 0.06);
+
+    const cellsWidth = columnWidths.reduce((sum, w) => sum + w, 0) + columnGap * Math.max(0, columnCount - 1);
+    const cellsHeight = rowAscents.reduce((sum, h, i) => sum + h + rowDescents[i], 0) + rowGap * Math.max(0, rows.length - 1);
+    const width = cellsWidth + bracketPadding * 2;
+    const halfHeight = cellsHeight / 2 + bracketOverhang;
+    const axis = em * axisHeight;
+    return {
+        width,
+        ascent: halfHeight + axis,
+        descent: halfHeight - axis,
+        draw(target, x, y, color) {
+            const top = y - axis - halfHeight, bottom = y - axis + halfHeight;
+            const backend = target.backend;
+            for (const bracketX of [x + lineWidth / 2, x + width - lineWidth / 2]) {
+                const inward = bracketX < x + width / 2 ? serif : -serif;
+                backend?.strokeLine([bracketX, top], [bracketX, bottom], color, lineWidth);
+                backend?.strokeLine([bracketX, top], [bracketX + inward, top], color, lineWidth);
+                backend?.strokeLine([bracketX, bottom], [bracketX + inward, bottom], color, lineWidth);
+            }
+
+            let rowY = top + bracketOverhang;
+            cells.forEach((row, i) => {
+                const baseline = rowY + rowAscents[i];
+                let columnX = x + bracketPadding;
+                row.forEach((cell, j) => {
+                    cell.draw(target, columnX + columnWidths[j] - cell.width, baseline, color);
+                    columnX += columnWidths[j] + columnGap;
+                });
+                rowY = baseline + rowDescents[i] + rowGap;
+            });
+        },
+    };
+}
+
+function layoutColor(body: FormulaBox, bodyColor: string): FormulaBox {
+    return { ... body, draw: (target, x, y) => body.draw(target, x, y, bodyColor) };
+}
+
+function layoutMark(body: FormulaBox, id: string): FormulaBox {
+    return {
+        ... body,
+        draw(target, x, y, color) {
+            target.marks.set(id, { x, y: y - body.ascent, width: body.width, height: body.ascent + body.descent });
+            body.draw(target, x, y, color);
+        },
+    };
+}
+
+// The size is in points, already scaled for the canvas.
+function layoutFormula(backend: RenderBackend, formula: Formula, size: number): FormulaBox {
+    if (typeof formula === 'string')
+        return layoutText(backend, expandGreekLetters(formula), size, false);
+    if (Array.isArray(formula))
+        return layoutRow(formula.map((part) => layoutFormula(backend, part, size)));
+
+    const node = formula as Exclude<Formula, string | readonly Formula[]>;
+    switch (node.type) {
+    case 'variable':
+        return layoutText(backend, expandGreekLetters(node.name), size, true);
+    case 'script':
+        return layoutScript(backend, layoutFormula(backend, node.base, size), size, node.sub, node.sup);
+    case 'fraction':
+        return layoutFraction(backend, node.numerator, node.denominator, size);
+    case 'accent':
+        return layoutAccent(node.accent, layoutFormula(backend, node.base, size), size);
+    case 'matrix':
+        return layoutMatrix(backend, node.rows, size);
+    case 'color':
+        return layoutColor(layoutFormula(backend, node.body, size), node.color);
+    case 'mark':
+        return layoutMark(layoutFormula(backend, node.body, size), node.id);
+    }
+}
+
+// The size is the same as for Canvas.drawText.
+export function measureFormula(canvas: Canvas, formula: Formula, size = 24): FormulaMetrics {
+    const { width, ascent, descent } = layoutFormula(canvas.backend, formula, canvas.getSize(size));
+    return { width, ascent, descent };
+}
+
+// Where the formula starts its baseline, to be drawn at x, y like Canvas.drawText would draw text.
+function alignFormula(box: FormulaBox, x: number, y: number, align: TextStyle['align'], baseline: TextStyle['baseline']): [number, number] {
+    if (align === 'center')
+        x -= box.width / 2;
+    else if (align === 'right')
+        x -= box.width;
+    if (baseline === 'top')
+        y += box.ascent;
+    else if (baseline === 'middle')
+        y += (box.ascent - box.descent) / 2;
+    else if (baseline === 'bottom')
+        y -= box.descent;
+    return [x, y];
+}
+
+// Where the marked parts of the formula would be drawn, without drawing anything.
+export function locateFormulaMarks(canvas: Canvas, formula: Formula, x: number, y: number, size = 24, align: TextStyle['align'] = 'left', baseline: TextStyle['baseline'] = 'alphabetic'): Map<string, FormulaRect> {
+    const box = layoutFormula(canvas.backend, formula, canvas.getSize(size));
+    const target: FormulaTarget = { backend: null, marks: new Map() };
+    box.draw(target, ... alignFormula(box, x, y, align, baseline), '#333');
+    return target.marks;
+}
+
+// Draws a formula like Canvas.drawText draws text. The baseline is the baseline of the formula's main row,
+// with fractions and matrices centered a little above it. Returns where the marked parts went.
+export function drawFormula(canvas: Canvas, formula: Formula, x: number, y: number, color = '#333', size = 24, align: TextStyle['align'] = 'left', baseline: TextStyle['baseline'] = 'alphabetic'): Map<string, FormulaRect> {
+    const box = layoutFormula(canvas.backend, formula, canvas.getSize(size));
+    const target: FormulaTarget = { backend: canvas.backend, marks: new Map() };
+    canvas.backend.pushGroup('formula');
+    box.draw(target, ... alignFormula(box, x, y, align, baseline), color);
+    canvas.backend.popGroup();
+    return target.marks;
+}
@@ -0,0 +1,143 @@
+
+import { vec2 } from 'gl-matrix';
+
+// Recognizes touch gestures from the touch pointers on the canvas. The first finger down stands in for
+// the mouse, so that dragging works as it does with a mouse, until one of the gestures takes over:
+//
+// - A second finger starts a pinch and twist, which zooms and rotates for as long as two fingers are down.
+// - Holding the first finger still for a moment starts scrubbing, where moving it up and down works like
+//   the mouse wheel.
+//
+// Gestures are timed with frame times rather than event times, so that replaying a recording gives the
+// same result.
+
+const longPressTime = 500;
+// In canvas pixels.
+const longPressSlop = 10;
+const scrubStepSize = 20;
+
+interface Touch {
+    id: number;
+    position: vec2;
+}
+
+export class TouchGestures {
+    // Accumulated over the current frame.
+    public pinchScale = 1;
+    public twistAngle = 0;
+    public scrubSteps = 0;
+
+    private touches: Touch[] = [];
+    // Set while the first finger is standing in for the mouse.
+    private primaryId: number | null = null;
+    private primaryStart = vec2.create();
+    private primaryStartTime: number | null = null;
+    private scrubbing = false;
+    private scrubY = 0;
+    // Once a gesture has taken over, the mouse stays up until every finger is lifted.
+    private gestureActive = false;
+
+    public get emulatesMouse(): boolean {
+        return this.primaryId !== null && !this.gestureActive;
+    }
+
+    public isPrimary(id: number): boolean {
+        return id === this.primaryId;
+    }
+
+    public handleTouch(phase: 'down' | 'move' | 'up', id: number, x: number, y: number): void {
+        const index = this.touches.findIndex((touch) => touch.id === id);
+        const position = vec2.fromValues(x, y);
+
+        if (phase === 'down') {
+            if (index < 0)
+                this.touches.push({ id, position });
+
+            if (this.touches.length === 1 && !this.gestureActive) {
+                this.primaryId = id;
+                vec2.copy(this.primaryStart, position);
+                this.primaryStartTime = null;
+            } else {
+                // A second finger: pinch and twist from here on.
+                this.gestureActive = true;
+                this.scrubbing = false;
+            }
+        } else if (phase === 'move') {
+            if (index < 0)
+                return;
+
+            if (this.touches.length >= 2 && index < 2)
+                this.updatePinch(index, position);
+
+            if (this.scrubbing && id === this.primaryId) {
+                this.scrubY += y - this.touches[index].position[1];
+                while (Math.abs(this.scrubY) >= scrubStepSize) {
+                    const step = Math.sign(this.scrubY);
+                    this.scrubSteps += step;
+                    this.scrubY -= step * scrubStepSize;
+                }
+            }
+
+            vec2.copy(this.touches[index].position, position);
+        } else {
+            if (index >= 0)
+                this.touches.splice(index, 1);
+
+            if (this.touches.length === 0) {
+                this.primaryId = null;
+                this.gestureActive = false;
+                this.scrubbing = false;
+            }
+        }
+    }
+
+    private updatePinch(index: number, position: vec2): void {
+        const other = this.touches[1 - index].position;
+        const before = vec2.sub(vec2.create(), this.touches[index].position, other);
+        const after = vec2.sub(vec2.create(), position, other);
+
+        const lengthBefore = vec2.length(before), lengthAfter = vec2.length(after);
+        if (lengthBefore > 0 && lengthAfter > 0)
+            this.pinchScale *= lengthAfter / lengthBefore;
+
+        let angle = Math.atan2(after[1], after[0]) - Math.atan2(before[1], before[0]);
+        if (angle > Math.PI)
+            angle -= Math.PI * 2;
+        if (angle < -Math.PI)
+            angle += Math.PI * 2;
+        this.twistAngle += angle;
+    }
+
+    // Called at the start of every frame, to time the long press.
+    public update(time: number): void {
+        if (this.primaryId === null || this.gestureActive)
+            return;
+
+        if (this.primaryStartTime === null)
+            this.primaryStartTime = time;
+
+        const primary = this.touches.find((touch) => touch.id === this.primaryId)!;
+        if (vec2.distance(primary.position, this.primaryStart) > longPressSlop) {
+            // It's a drag, not a long press.
+            this.primaryStartTime = Infinity;
+        } else if (time - this.primaryStartTime >= longPressTime) {
+            this.gestureActive = true;
+            this.scrubbing = true;
+            this.scrubY = 0;
+        }
+    }
+
+    public endFrame(): void {
+        this.pinchScale = 1;
+        this.twistAngle = 0;
+        this.scrubSteps = 0;
+    }
+
+    public reset(): void {
+        this.endFrame();
+        this.touches = [];
+        this.primaryId = null;
+        this.gestureActive = false;
+        this.scrubbing = false;
+    }
+}
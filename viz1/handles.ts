@@ -0,0 +1,285 @@
+
+import { ReadonlyVec2, vec2 } from 'gl-matrix';
+import { Canvas } from './canvas';
+import { Drag, NormalDrag, PositionDrag, SliderDrag } from './drag';
+import { UI } from './ui';
+import { clamp, lineDistance } from './util';
+
+// The handles that can be dragged in the scene. Demos declare their handles every frame, immediate-mode
+// style, and the registry works out which one is under the mouse, drags it, moves it with the arrow keys
+// while it has the keyboard focus, and snaps it while Shift is held.
+//
+// Which handle is under the mouse is decided at the end of the frame, once every handle has been declared,
+// so that priorities work no matter what order handles are declared in.
+
+// Turns canvas positions into the space a handle's shapes and values are in. View2D is one.
+export interface HandleSpace {
+    transformCanvasToWorld(v: ReadonlyVec2): vec2;
+}
+
+const canvasSpace: HandleSpace = {
+    transformCanvasToWorld: (v) => vec2.clone(v),
+};
+
+export type HandleShape =
+    | { type: 'point', center: ReadonlyVec2 }
+    | { type: 'segment', a: ReadonlyVec2, b: ReadonlyVec2 }
+    // Everywhere at least radius away from center.
+    | { type: 'outside', center: ReadonlyVec2, radius: number }
+    | { type: 'everywhere' };
+
+export type HandleBehavior =
+    // Moves target with the mouse. Shift snaps it to a grid with the given spacing.
+    | { type: 'position', target: vec2, snap?: number, keyStep?: number }
+    // Turns the unit vector target as the mouse goes around origin. Shift snaps it to multiples of the
+    // given angle, in radians.
+    | { type: 'rotation', target: vec2, origin: ReadonlyVec2, snap?: number, keyStep?: number }
+    // Changes a number as the mouse moves along axis, which is scaled to the change per unit moved.
+    | { type: 'slider', value: number, onChange: (value: number) => void, axis: ReadonlyVec2, min?: number, max?: number, snap?: number, keyStep?: number };
+
+export interface HandleSpec {
+    // Also what the handle is called when it has the keyboard focus.
+    id: string;
+    shapes: HandleShape[];
+    // How close the mouse has to be to one of the shapes, in the handle's space.
+    hitRadius?: number;
+    // When the mouse is over more than one handle, the highest priority wins, and then the closest.
+    priority?: number;
+    behavior: HandleBehavior;
+    // Defaults to canvas coordinates.
+    space?: HandleSpace;
+    // The CSS cursor to show while the mouse is over the handle. The default depends on the behavior.
+    cursor?: string;
+    // Set for handles that only move the view, like orbiting the camera, so that dragging them isn't
+    // recorded in the undo history.
+    changesView?: boolean;
+}
+
+export interface HandleState {
+    // Under the mouse, and would be dragged by a press.
+    hot: boolean;
+    // Being dragged.
+    active: boolean;
+    focused: boolean;
+}
+
+// What the registry needs from its owner.
+export interface HandleContext {
+    readonly canvas: Canvas;
+    readonly ui: UI;
+    // False while drawing a frame for export, so that nothing reacts to the mouse or shows focus.
+    readonly interactive: boolean;
+}
+
+const defaultKeySteps = {
+    position: 0.01,
+    rotation: 2 * Math.PI / 180,
+};
+
+function shapeDistance(shape: HandleShape, p: ReadonlyVec2): number {
+    switch (shape.type) {
+    case 'point':
+        return vec2.distance(shape.center, p);
+    case 'segment':
+        return lineDistance(shape.a, shape.b, p);
+    case 'outside':
+        return vec2.distance(shape.center, p) >= shape.radius ? 0 : Infinity;
+    case 'everywhere':
+        return 0;
+    }
+}
+
+function defaultCursor(behavior: HandleBehavior): string {
+    switch (behavior.type) {
+    case 'position':
+        return 'move';
+    case 'rotation':
+        return 'grab';
+    case 'slider':
+        return Math.abs(behavior.axis[0]) >= Math.abs(behavior.axis[1]) ? 'ew-resize' : 'ns-resize';
+    }
+}
+
+function snapValue(value: number, snap: number): number {
+    return Math.round(value / snap) * snap;
+}
+
+// The next multiple of snap after value, in the direction of sign.
+function stepSnapped(value: number, sign: number, snap: number): number {
+    const epsilon = 1e-6;
+    if (sign > 0)
+        return (Math.floor(value / snap + epsilon) + 1) * snap;
+    else
+        return (Math.ceil(value / snap - epsilon) - 1) * snap;
+}
+
+function setAngle(v: vec2, angle: number): void {
+    vec2.set(v, Math.cos(angle), Math.sin(angle));
+}
+
+export class HandleRegistry {
+    // The handle under the mouse, as of the end of the last frame.
+    public hot: string | null = null;
+    // The handle being dragged.
+    public active: string | null = null;
+    public activeChangesView = false;
+
+    private drag: Drag | null = null;
+    private specs: HandleSpec[] = [];
+    private hotCursor = 'default';
+    private mouseButtonLast = 0;
+
+    constructor(private ctx: HandleContext) {
+    }
+
+    public get cursor(): string {
+        if (this.active !== null)
+            return 'grabbing';
+        if (this.hot !== null)
+            return this.hotCursor;
+        return 'default';
+    }
+
+    private isShiftDown(): boolean {
+        return this.ctx.canvas.isKeyDown('ShiftLeft') || this.ctx.canvas.isKeyDown('ShiftRight');
+    }
+
+    public beginFrame(): void {
+        this.specs = [];
+    }
+
+    // Declares a handle for this frame. If it is being dragged, or has the focus and an arrow key was
+    // pressed, its value is changed right away, so call this before drawing anything that depends on it.
+    public handle(spec: HandleSpec): HandleState {
+        const { canvas, ui } = this.ctx;
+        if (!this.ctx.interactive)
+            return { hot: false, active: false, focused: false };
+
+        this.specs.push(spec);
+
+        if (this.active === spec.id && this.drag !== null) {
+            const space = spec.space ?? canvasSpace;
+            // The target may be a new vector this frame, e.g. one made up from two numbers in the state.
+            const drag = this.drag;
+            if (drag instanceof PositionDrag || drag instanceof NormalDrag)
+                drag.out = (spec.behavior as { target: vec2 }).target;
+
+            const done = drag.update(space.transformCanvasToWorld(canvas.mouse), canvas.mouseButton);
+            this.applyDrag(spec.behavior, drag);
+            if (done) {
+                this.active = null;
+                this.drag = null;
+            }
+        }
+
+        const focused = ui.focusable(spec.id);
+        if (focused)
+            this.applyArrowKeys(spec.behavior, ui.arrowKeys(spec.id));
+
+        return { hot: this.hot === spec.id, active: this.active === spec.id, focused };
+    }
+
+    private applyDrag(behavior: HandleBehavior, drag: Drag): void {
+        const snap = this.isShiftDown() ? behavior.snap : undefined;
+
+        if (behavior.type === 'position') {
+            if (snap !== undefined) {
+                behavior.target[0] = snapValue(behavior.target[0], snap);
+                behavior.target[1] = snapValue(behavior.target[1], snap);
+            }
+        } else if (behavior.type === 'rotation') {
+            if (snap !== undefined)
+                setAngle(behavior.target, snapValue(Math.atan2(behavior.target[1], behavior.target[0]), snap));
+        } else if (drag instanceof SliderDrag) {
+            let value = drag.value;
+            if (snap !== undefined)
+                value = snapValue(value, snap);
+            behavior.onChange(clamp(value, behavior.min ?? -Infinity, behavior.max ?? Infinity));
+        }
+    }
+
+    // With Shift, handles that snap step from one snapped value to the next instead.
+    private applyArrowKeys(behavior: HandleBehavior, keys: vec2): void {
+        if (keys[0] === 0 && keys[1] === 0)
+            return;
+
+        const snap = this.isShiftDown() ? behavior.snap : undefined;
+
+        if (behavior.type === 'position') {
+            const target = behavior.target;
+            for (let i = 0; i < 2; i++) {
+                if (keys[i] === 0)
+                    continue;
+                target[i] = snap !== undefined ? stepSnapped(target[i], keys[i], snap) : target[i] + keys[i] * (behavior.keyStep ?? defaultKeySteps.position);
+            }
+        } else if (behavior.type === 'rotation') {
+            // Left and up turn counter-clockwise, right and down clockwise.
+            const turn = keys[1] - keys[0];
+            if (turn === 0)
+                return;
+            const angle = Math.atan2(behavior.target[1], behavior.target[0]);
+            setAngle(behavior.target, snap !== undefined ? stepSnapped(angle, turn, snap) : angle + turn * (behavior.keyStep ?? defaultKeySteps.rotation));
+        } else {
+            const delta = keys[0] + keys[1];
+            if (delta === 0)
+                return;
+            const keyStep = behavior.keyStep ?? ((behavior.max ?? 1) - (behavior.min ?? 0)) / 100;
+            const value = snap !== undefined ? stepSnapped(behavior.value, delta, snap) : behavior.value + delta * keyStep;
+            behavior.onChange(clamp(value, behavior.min ?? -Infinity, behavior.max ?? Infinity));
+        }
+    }
+
+    public endFrame(): void {
+        const { canvas, ui } = this.ctx;
+
+        // A handle that wasn't declared this frame can't be dragged any more.
+        if (this.active !== null && !this.specs.some((spec) => spec.id === this.active))
+            this.cancel();
+
+        const mousePressed = canvas.mouseButton !== 0 && this.mouseButtonLast === 0;
+        this.mouseButtonLast = canvas.mouseButton;
+
+        this.hot = null;
+        if (!this.ctx.interactive || this.active !== null || ui.wantsMouse)
+            return;
+
+        let best: HandleSpec | null = null, bestDistance = Infinity, bestMouse = vec2.create();
+        for (const spec of this.specs) {
+            const mouse = (spec.space ?? canvasSpace).transformCanvasToWorld(canvas.mouse);
+            const distance = Math.min(... spec.shapes.map((shape) => shapeDistance(shape, mouse)));
+            if (distance > (spec.hitRadius ?? 0))
+                continue;
+
+            const priority = spec.priority ?? 0, bestPriority = best !== null ? (best.priority ?? 0) : -Infinity;
+            if (priority > bestPriority || (priority === bestPriority && distance < bestDistance)) {
+                best = spec;
+                bestDistance = distance;
+                bestMouse = mouse;
+            }
+        }
+
+        if (best === null)
+            return;
+
+        this.hot = best.id;
+        this.hotCursor = best.cursor ?? defaultCursor(best.behavior);
+
+        if (mousePressed) {
+            const behavior = best.behavior;
+            if (behavior.type === 'position')
+                this.drag = new PositionDrag(behavior.target, bestMouse, canvas.mouseButton);
+            else if (behavior.type === 'rotation')
+                this.drag = new NormalDrag(behavior.target, behavior.origin, bestMouse, canvas.mouseButton);
+            else
+                this.drag = new SliderDrag(behavior.value, behavior.axis, bestMouse, canvas.mouseButton);
+            this.active = best.id;
+            this.activeChangesView = best.changesView ?? false;
+        }
+    }
+
+    // Drops any drag in progress, e.g. when the state is replaced from under it.
+    public cancel(): void {
+        this.active = null;
+        this.drag = null;
+    }
+}
@@ -0,0 +1,85 @@
+
+import { VizState } from './state';
+
+// One undoable edit: the fields it changed, with their values before and after.
+interface HistoryEntry {
+    before: { [field: string]: unknown };
+    after: { [field: string]: unknown };
+}
+
+function copyValue(value: unknown): unknown {
+    if (value instanceof Float32Array)
+        return value.slice();
+    return value;
+}
+
+function valuesEqual(a: unknown, b: unknown): boolean {
+    if (a instanceof Float32Array && b instanceof Float32Array)
+        return a.length === b.length && a.every((v, i) => v === b[i]);
+    return a === b;
+}
+
+// Undo and redo stacks over the scene state. Entries only hold the fields that changed, so undoing a
+// drag doesn't also undo things that aren't tracked, like switching demos or orbiting the camera.
+export class StateHistory {
+    private undoStack: HistoryEntry[] = [];
+    private redoStack: HistoryEntry[] = [];
+
+    constructor(private maxEntries = 100) {
+    }
+
+    public get canUndo(): boolean {
+        return this.undoStack.length > 0;
+    }
+
+    public get canRedo(): boolean {
+        return this.redoStack.length > 0;
+    }
+
+    // Records an edit from one state to another. Returns false, and records nothing, if no fields changed.
+    public push(before: VizState, after: VizState): boolean {
+        const entry: HistoryEntry = { before: {}, after: {} };
+        let changed = false;
+        for (const key in after) {
+            if (key === 'demo' || valuesEqual(before[key], after[key]))
+                continue;
+
+            entry.before[key] = copyValue(before[key]);
+            entry.after[key] = copyValue(after[key]);
+            changed = true;
+        }
+
+        if (!changed)
+            return false;
+
+        this.undoStack.push(entry);
+        if (this.undoStack.length > this.maxEntries)
+            this.undoStack.shift();
+        this.redoStack = [];
+        return true;
+    }
+
+    // Returns the fields to set to undo the last edit, or null if there is nothing to undo.
+    public undo(): { [field: string]: unknown } | null {
+        const entry = this.undoStack.pop();
+        if (entry === undefined)
+            return null;
+
+        this.redoStack.push(entry);
+        return entry.before;
+    }
+
+    public redo(): { [field: string]: unknown } | null {
+        const entry = this.redoStack.pop();
+        if (entry === undefined)
+            return null;
+
+        this.undoStack.push(entry);
+        return entry.after;
+    }
+
+    public clear(): void {
+        this.undoStack = [];
+        this.redoStack = [];
+    }
+}
@@ -0,0 +1,78 @@
+
+import { ReadonlyVec3, vec3 } from 'gl-matrix';
+import { computeUnitSphereCoords } from './util';
+
+// Triangle meshes for the rasterizer. Triangles go counter-clockwise when seen from the outside.
+export interface Mesh {
+    positions: vec3[];
+    normals: vec3[];
+    indices: number[];
+}
+
+// A box centered on center, with each face split into a grid of cells, so that it still looks right when
+// its vertices are moved around by something that isn't a linear transform.
+export function createBoxMesh(center: ReadonlyVec3, size: ReadonlyVec3, cellCount = 1): Mesh {
+    const mesh: Mesh = { positions: [], normals: [], indices: [] };
+
+    for (let axis = 0; axis < 3; axis++) {
+        for (const side of [-1, 1]) {
+            const normal = vec3.create();
+            normal[axis] = side;
+
+            // Two axes across the face, ordered so that the triangles face outwards.
+            const u = (axis + (side > 0 ? 1 : 2)) % 3, v = (axis + (side > 0 ? 2 : 1)) % 3;
+            const first = mesh.positions.length;
+            for (let j = 0; j <= cellCount; j++) {
+                for (let i = 0; i <= cellCount; i++) {
+                    const p = vec3.create();
+                    p[axis] = side * 0.5;
+                    p[u] = i / cellCount - 0.5;
+                    p[v] = j / cellCount - 0.5;
+                    vec3.mul(p, p, size);
+                    vec3.add(p, p, center);
+                    mesh.positions.push(p);
+                    mesh.normals.push(vec3.clone(normal));
+                }
+            }
+
+            for (let j = 0; j < cellCount; j++) {
+                for (let i = 0; i < cellCount; i++) {
+                    const a = first + j * (cellCount + 1) + i, b = a + 1, c = a + cellCount + 1, d = c + 1;
+                    mesh.indices.push(a, b, d, a, d, c);
+                }
+            }
+        }
+    }
+
+    return mesh;
+}
+
+// A sphere centered on the origin, split into rings from the top down and segments around the Y axis.
+export function createSphereMesh(radius: number, ringCount = 16, segmentCount = 32): Mesh {
+    const mesh: Mesh = { positions: [], normals: [], indices: [] };
+
+    for (let j = 0; j <= ringCount; j++) {
+        for (let i = 0; i <= segmentCount; i++) {
+            const normal = computeUnitSphereCoords(i / segmentCount * Math.PI * 2, j / ringCount * Math.PI);
+            mesh.positions.push(vec3.scale(vec3.create(), normal, radius));
+            mesh.normals.push(normal);
+        }
+    }
+
+    for (let j = 0; j < ringCount; j++) {
+        for (let i = 0; i < segmentCount; i++) {
+            const a = j * (segmentCount + 1) + i, b = a + 1, c = a + segmentCount + 1, d = c + 1;
+            mesh.indices.push(a, b, d, a, d, c);
+        }
+    }
+
+    return mesh;
+}
+
+// A flat convex polygon, as a fan of triangles from its first vertex.
+export function createPolygonMesh(positions: readonly ReadonlyVec3[], normal: ReadonlyVec3): Mesh {
+    const mesh: Mesh = { positions: positions.map((v) => vec3.clone(v)), normals: positions.map(() => vec3.clone(normal)), indices: [] };
+    for (let i = 1; i + 1 < positions.length; i++)
+        mesh.indices.push(0, i, i + 1);
+    return mesh;
+}
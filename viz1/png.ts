@@ -0,0 +1,127 @@
+
+import { PixelBuffer } from './render';
+
+// A minimal PNG encoder, for backends that need pixels as a file without a DOM canvas to encode them,
+// like SVG export. The image data is stored uncompressed, which is much larger than a real encoder's
+// output but simple enough to fit here.
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(bytes: Uint8Array, start: number, end: number): number {
+    if (crcTable === null) {
+        crcTable = new Uint32Array(256);
+        for (let n = 0; n < 256; n++) {
+            let c = n;
+            for (let k = 0; k < 8; k++)
+                c = (c & 1) ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+            crcTable[n] = c >>> 0;
+        }
+    }
+
+    let crc = 0xffffffff;
+    for (let i = start; i < end; i++)
+        crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+function adler32(bytes: Uint8Array): number {
+    let a = 1, b = 0;
+    for (let i = 0; i < bytes.length; i++) {
+        a = (a + bytes[i]) % 65521;
+        b = (b + a) % 65521;
+    }
+    return ((b << 16) | a) >>> 0;
+}
+
+class ByteWriter {
+    public bytes: Uint8Array;
+    public length = 0;
+
+    constructor(capacity: number) {
+        this.bytes = new Uint8Array(capacity);
+    }
+
+    public u8(v: number): void {
+        this.bytes[this.length++] = v;
+    }
+
+    public u16LE(v: number): void {
+        this.u8(v & 0xff);
+        this.u8((v >>> 8) & 0xff);
+    }
+
+    public u32BE(v: number): void {
+        this.u8((v >>> 24) & 0xff);
+        this.u8((v >>> 16) & 0xff);
+        this.u8((v >>> 8) & 0xff);
+        this.u8(v & 0xff);
+    }
+
+    public array(a: ArrayLike<number>): void {
+        this.bytes.set(a, this.length);
+        this.length += a.length;
+    }
+}
+
+function writeChunk(out: ByteWriter, type: string, data: Uint8Array): void {
+    out.u32BE(data.length);
+    const start = out.length;
+    for (let i = 0; i < 4; i++)
+        out.u8(type.charCodeAt(i));
+    out.array(data);
+    out.u32BE(crc32(out.bytes, start, out.length));
+}
+
+// A zlib stream made of stored (uncompressed) deflate blocks.
+function zlibStore(data: Uint8Array): Uint8Array {
+    const maxBlock = 0xffff;
+    const blockCount = Math.max(Math.ceil(data.length / maxBlock), 1);
+    const out = new ByteWriter(2 + data.length + blockCount * 5 + 4);
+
+    out.u8(0x78);
+    out.u8(0x01);
+    for (let i = 0; i < blockCount; i++) {
+        const block = data.subarray(i * maxBlock, (i + 1) * maxBlock);
+        out.u8(i === blockCount - 1 ? 1 : 0);
+        out.u16LE(block.length);
+        out.u16LE(~block.length & 0xffff);
+        out.array(block);
+    }
+    out.u32BE(adler32(data));
+    return out.bytes;
+}
+
+export function encodePNG(image: PixelBuffer): Uint8Array {
+    const { width, height, data } = image;
+
+    // Every row starts with its filter type, which is always 0 (none) here.
+    const stride = width * 4;
+    const raw = new Uint8Array((stride + 1) * height);
+    for (let y = 0; y < height; y++)
+        raw.set(data.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+
+    const header = new ByteWriter(13);
+    header.u32BE(width);
+    header.u32BE(height);
+    // 8 bits per channel, RGBA, and the default compression, filter and interlace methods.
+    header.array([8, 6, 0, 0, 0]);
+
+    const idat = zlibStore(raw);
+    const out = new ByteWriter(8 + (12 + 13) + (12 + idat.length) + 12);
+    out.array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+    writeChunk(out, 'IHDR', header.bytes);
+    writeChunk(out, 'IDAT', idat);
+    writeChunk(out, 'IEND', new Uint8Array(0));
+    return out.bytes;
+}
+
+export function encodePNGDataURL(image: PixelBuffer): string {
+    const bytes = encodePNG(image);
+
+    // btoa wants a string with a character per byte. Build it in chunks to keep the argument lists short.
+    let binary = '';
+    const chunkSize = 0x8000;
+    for (let i = 0; i < bytes.length; i += chunkSize)
+        binary += String.fromCharCode(... bytes.subarray(i, i + chunkSize));
+    return `data:image/png;base64,${btoa(binary)}`;
+}
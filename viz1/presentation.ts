@@ -0,0 +1,89 @@
+
+// A presentation is an ordered list of steps, each of which shows a demo in a given configuration.
+
+export interface PresentationStep {
+    demo: string;
+    // Partial overrides of the scene state. Vectors are written as arrays, e.g. [0.3, 0.8].
+    state?: { [field: string]: unknown };
+    caption?: string;
+    // How long to animate into this step, in milliseconds.
+    duration?: number;
+}
+
+export interface PresentationScript {
+    title?: string;
+    steps: PresentationStep[];
+}
+
+function isObject(v: unknown): v is { [key: string]: unknown } {
+    return typeof v === 'object' && v !== null && !Array.isArray(v);
+}
+
+// Checks the shape of a script loaded from JSON. This can't know which demos or state fields exist;
+// Viz checks that when the presentation starts.
+export function parsePresentationScript(json: unknown): PresentationScript {
+    if (!isObject(json) || !Array.isArray(json.steps))
+        throw new Error(`Presentation script must be an object with a "steps" array`);
+
+    if (json.title !== undefined && typeof json.title !== 'string')
+        throw new Error(`Presentation script "title" must be a string`);
+
+    const steps = json.steps.map((step: unknown, i: number): PresentationStep => {
+        if (!isObject(step) || typeof step.demo !== 'string')
+            throw new Error(`Presentation step ${i + 1} must be an object with a "demo" id`);
+        if (step.state !== undefined && !isObject(step.state))
+            throw new Error(`Presentation step ${i + 1}: "state" must be an object`);
+        if (step.caption !== undefined && typeof step.caption !== 'string')
+            throw new Error(`Presentation step ${i + 1}: "caption" must be a string`);
+        if (step.duration !== undefined && (typeof step.duration !== 'number' || !(step.duration >= 0)))
+            throw new Error(`Presentation step ${i + 1}: "duration" must be a number of milliseconds`);
+
+        return { demo: step.demo, state: step.state, caption: step.caption, duration: step.duration };
+    });
+
+    if (steps.length === 0)
+        throw new Error(`Presentation script has no steps`);
+
+    return { title: json.title, steps };
+}
+
+export async function fetchPresentationScript(url: string): Promise<PresentationScript> {
+    const response = await fetch(url);
+    if (!response.ok)
+        throw new Error(`Could not load presentation script ${url}: ${response.status} ${response.statusText}`);
+
+    return parsePresentationScript(await response.json());
+}
+
+export class Presentation {
+    public stepIndex = 0;
+
+    constructor(public script: PresentationScript, stepIndex = 0) {
+        this.stepIndex = Math.min(Math.max(stepIndex, 0), script.steps.length - 1);
+    }
+
+    public get step(): PresentationStep {
+        return this.script.steps[this.stepIndex];
+    }
+
+    public get stepCount(): number {
+        return this.script.steps.length;
+    }
+
+    // Returns false if the step didn't change, e.g. when stepping past the first or last step.
+    public goTo(stepIndex: number): boolean {
+        if (stepIndex < 0 || stepIndex >= this.script.steps.length || stepIndex === this.stepIndex)
+            return false;
+
+        this.stepIndex = stepIndex;
+        return true;
+    }
+
+    public next(): boolean {
+        return this.goTo(this.stepIndex + 1);
+    }
+
+    public prev(): boolean {
+        return this.goTo(this.stepIndex - 1);
+    }
+}
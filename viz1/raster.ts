@@ -0,0 +1,203 @@
+
+import { ReadonlyVec4, vec4 } from 'gl-matrix';
+import { ClipPlane, clipPolygonVertices, frustumClipPlanes } from './clip';
+import { PixelBuffer } from './render';
+
+// A software triangle rasterizer, to show what the GPU does between the vertices and the pixels. Triangles
+// come in as clip space positions, the same ones View3D computes from clipFromWorld3D, and are drawn into
+// a color buffer, with a depth buffer so that the nearest surface wins whatever order they're drawn in.
+//
+// Triangles are clipped against the view volume first, which can turn them into polygons, which are drawn
+// as fans of triangles.
+//
+// It follows the GPU conventions: pixels are sampled at their centers, edges follow the top-left rule so
+// that triangles sharing an edge don't both draw the pixels on it, depth goes from 0 at the near plane to
+// 1 at the far plane, and attributes are interpolated in a perspective-correct way.
+
+export interface RasterVertex {
+    clip: ReadonlyVec4;
+    // Interpolated across the triangle for the fragment shader. The vertices of a triangle must all
+    // have the same number.
+    varyings: ArrayLike<number>;
+}
+
+// Computes the color of a pixel from the interpolated varyings, as RGBA from 0 to 1.
+export type FragmentShader = (varyings: Float32Array, color: vec4) => void;
+
+export interface RasterStats {
+    triangles: number;
+    // Pixels covered by a triangle, including the ones that failed the depth test.
+    fragments: number;
+    depthFailed: number;
+}
+
+// Clip space is still linear, so a vertex partway along an edge is a plain blend of the two ends.
+function lerpVertex(a: RasterVertex, b: RasterVertex, t: number): RasterVertex {
+    const varyings = new Float32Array(a.varyings.length);
+    for (let i = 0; i < varyings.length; i++)
+        varyings[i] = a.varyings[i] + (b.varyings[i] - a.varyings[i]) * t;
+    return { clip: vec4.lerp(vec4.create(), a.clip, b.clip, t), varyings };
+}
+
+export class Rasterizer implements PixelBuffer {
+    public data: Uint8ClampedArray;
+    public depth: Float32Array;
+    public stats: RasterStats = { triangles: 0, fragments: 0, depthFailed: 0 };
+
+    public depthTest = true;
+    // Triangles are front facing when their vertices go counter-clockwise on screen, as in OpenGL.
+    public cullBackFaces = false;
+    public clipPlanes: readonly ClipPlane[] = frustumClipPlanes;
+
+    private varyings = new Float32Array(0);
+    private color = vec4.create();
+
+    constructor(public width: number, public height: number) {
+        this.data = new Uint8ClampedArray(width * height * 4);
+        this.depth = new Float32Array(width * height);
+    }
+
+    public resize(width: number, height: number): void {
+        if (width === this.width && height === this.height)
+            return;
+
+        this.width = width;
+        this.height = height;
+        this.data = new Uint8ClampedArray(width * height * 4);
+        this.depth = new Float32Array(width * height);
+    }
+
+    // Clears to transparent by default, so that the image can be drawn over the rest of the scene.
+    public clear(color: ReadonlyVec4 = [0, 0, 0, 0], depth = 1): void {
+        for (let i = 0; i < this.data.length; i += 4) {
+            this.data[i + 0] = color[0] * 255;
+            this.data[i + 1] = color[1] * 255;
+            this.data[i + 2] = color[2] * 255;
+            this.data[i + 3] = color[3] * 255;
+        }
+        this.depth.fill(depth);
+        this.stats = { triangles: 0, fragments: 0, depthFailed: 0 };
+    }
+
+    // Colors with an alpha below 1 are blended over what's already there, and don't write depth, so draw
+    // them after everything opaque.
+    public drawTriangle(v0: RasterVertex, v1: RasterVertex, v2: RasterVertex, shader: FragmentShader): void {
+        const polygon = clipPolygonVertices([v0, v1, v2], this.clipPlanes, (v) => v.clip, lerpVertex);
+        for (let i = 1; i + 1 < polygon.length; i++)
+            this.rasterizeTriangle(polygon[0], polygon[i], polygon[i + 1], shader);
+    }
+
+    private rasterizeTriangle(v0: RasterVertex, v1: RasterVertex, v2: RasterVertex, shader: FragmentShader): void {
+        const vertices = [v0, v1, v2];
+
+        // The divide by w, then on to window coordinates: pixels with +Y down, and depth from 0 to 1.
+        const x: number[] = [], y: number[] = [], z: number[] = [], invW: number[] = [];
+        for (const v of vertices) {
+            const w = v.clip[3];
+            invW.push(1 / w);
+            x.push((v.clip[0] / w + 1) * 0.5 * this.width);
+            y.push((1 - v.clip[1] / w) * 0.5 * this.height);
+            z.push((v.clip[2] / w + 1) * 0.5);
+        }
+
+        // Twice the signed area. With +Y down, it's negative when the vertices go counter-clockwise.
+        const area = (x[1] - x[0]) * (y[2] - y[0]) - (x[2] - x[0]) * (y[1] - y[0]);
+        if (area === 0 || (this.cullBackFaces && area > 0))
+            return;
+
+        this.stats.triangles++;
+
+        // Edge i is the one opposite vertex i. Its edge function is positive inside the triangle, zero on
+        // the edge, and divided by the area it's the barycentric weight of vertex i.
+        const sign = area > 0 ? 1 : -1;
+        const edges = [0, 1, 2].map((i) => {
+            const a = (i + 1) % 3, b = (i + 2) % 3;
+            const dx = (y[a] - y[b]) * sign, dy = (x[b] - x[a]) * sign;
+            // Pixels exactly on an edge belong to the triangle if the edge is a left edge, or a
+            // horizontal top edge.
+            const topLeft = dx > 0 || (dx === 0 && dy > 0);
+            return { dx, dy, c: -(dx * x[a] + dy * y[a]), topLeft };
+        });
+
+        const varyingCount = v0.varyings.length;
+        if (this.varyings.length !== varyingCount)
+            this.varyings = new Float32Array(varyingCount);
+        const varyings = this.varyings, color = this.color;
+
+        const minX = Math.max(Math.floor(Math.min(... x)), 0), maxX = Math.min(Math.ceil(Math.max(... x)), this.width - 1);
+        const minY = Math.max(Math.floor(Math.min(... y)), 0), maxY = Math.min(Math.ceil(Math.max(... y)), this.height - 1);
+        const weights = [0, 0, 0];
+        for (let py = minY; py <= maxY; py++) {
+            for (let px = minX; px <= maxX; px++) {
+                const sx = px + 0.5, sy = py + 0.5;
+
+                let inside = true;
+                for (let i = 0; i < 3; i++) {
+                    const e = edges[i];
+                    const value = e.dx * sx + e.dy * sy + e.c;
+                    if (value < 0 || (value === 0 && !e.topLeft)) {
+                        inside = false;
+                        break;
+                    }
+                    weights[i] = value;
+                }
+                if (!inside)
+                    continue;
+
+                // Depth is a linear function of screen position, so it can be interpolated as-is.
+                const l0 = weights[0] / (area * sign), l1 = weights[1] / (area * sign), l2 = weights[2] / (area * sign);
+                const depth = l0 * z[0] + l1 * z[1] + l2 * z[2];
+
+                this.stats.fragments++;
+                const index = py * this.width + px;
+                if (this.depthTest && depth >= this.depth[index]) {
+                    this.stats.depthFailed++;
+                    continue;
+                }
+
+                // Anything else isn't linear on screen once it's been through the divide by w, but its value
+                // divided by w is, and so is 1 / w. Interpolate both, then divide one by the other.
+                const p0 = l0 * invW[0], p1 = l1 * invW[1], p2 = l2 * invW[2];
+                const invSum = 1 / (p0 + p1 + p2);
+                for (let i = 0; i < varyingCount; i++)
+                    varyings[i] = (p0 * v0.varyings[i] + p1 * v1.varyings[i] + p2 * v2.varyings[i]) * invSum;
+
+                vec4.set(color, 0, 0, 0, 1);
+                shader(varyings, color);
+                this.writeColor(index, color, depth);
+            }
+        }
+    }
+
+    private writeColor(index: number, color: vec4, depth: number): void {
+        const data = this.data, i = index * 4;
+        const alpha = color[3];
+        if (alpha >= 1) {
+            data[i + 0] = color[0] * 255;
+            data[i + 1] = color[1] * 255;
+            data[i + 2] = color[2] * 255;
+            data[i + 3] = 255;
+            this.depth[index] = depth;
+            return;
+        }
+
+        // Blending over the pixel underneath. The buffer's alpha isn't premultiplied.
+        const dstAlpha = data[i + 3] / 255;
+        const outAlpha = alpha + dstAlpha * (1 - alpha);
+        if (outAlpha <= 0)
+            return;
+        for (let c = 0; c < 3; c++)
+            data[i + c] = (color[c] * 255 * alpha + data[i + c] * dstAlpha * (1 - alpha)) / outAlpha;
+        data[i + 3] = outAlpha * 255;
+    }
+
+    // Runs the vertex shader once for each vertex, then draws the triangles given by every three indices.
+    public drawIndexed(vertexCount: number, indices: ArrayLike<number>, vertexShader: (index: number) => RasterVertex, fragmentShader: FragmentShader): void {
+        const vertices: RasterVertex[] = [];
+        for (let i = 0; i < vertexCount; i++)
+            vertices.push(vertexShader(i));
+
+        for (let i = 0; i + 2 < indices.length; i += 3)
+            this.drawTriangle(vertices[indices[i]], vertices[indices[i + 1]], vertices[indices[i + 2]], fragmentShader);
+    }
+}
@@ -0,0 +1,180 @@
+
+import { Canvas, CanvasInputEvent, CanvasInputSnapshot } from './canvas';
+
+// A recording holds all the input a Canvas received, split up by the frame it was handled in, along
+// with each frame's time. Replaying it from the same starting state reproduces the session exactly.
+
+export interface RecordedFrame {
+    // In milliseconds, as passed to Viz.update.
+    time: number;
+    events: CanvasInputEvent[];
+}
+
+export interface InputRecording {
+    version: 1;
+    width: number;
+    height: number;
+    pixelRatio: number;
+    // The serialized scene state when the recording started.
+    state: string;
+    input: CanvasInputSnapshot;
+    frames: RecordedFrame[];
+}
+
+function isObject(v: unknown): v is { [key: string]: unknown } {
+    return typeof v === 'object' && v !== null && !Array.isArray(v);
+}
+
+function isFiniteNumber(v: unknown): v is number {
+    return typeof v === 'number' && Number.isFinite(v);
+}
+
+const pointerPhases: readonly unknown[] = ['down', 'move', 'up'];
+const pointerKinds: readonly unknown[] = ['mouse', 'pen', 'touch'];
+
+// Returns a description of what's wrong with the event, or null if it's one the canvas handles.
+function checkInputEvent(e: unknown): string | null {
+    if (!isObject(e))
+        return `expected an object`;
+
+    switch (e.type) {
+    case 'pointer':
+        if (!pointerPhases.includes(e.phase) || !pointerKinds.includes(e.kind))
+            return `unknown pointer phase or kind`;
+        return [e.id, e.x, e.y, e.buttons].every(isFiniteNumber) ? null : `pointer needs a number id, x, y and buttons`;
+    case 'mouse':
+        return [e.x, e.y, e.buttons].every(isFiniteNumber) ? null : `mouse needs a number x, y and buttons`;
+    case 'wheel':
+        return isFiniteNumber(e.deltaY) ? null : `wheel needs a number deltaY`;
+    case 'keydown':
+        return typeof e.code === 'string' && typeof e.repeat === 'boolean' ? null : `keydown needs a code and repeat`;
+    case 'keyup':
+        return typeof e.code === 'string' ? null : `keyup needs a code`;
+    default:
+        return `unknown event type ${JSON.stringify(e.type)}`;
+    }
+}
+
+function isInputSnapshot(v: unknown): v is CanvasInputSnapshot {
+    return isObject(v)
+        && Array.isArray(v.mouse) && v.mouse.length === 2 && v.mouse.every(isFiniteNumber)
+        && isFiniteNumber(v.mouseButton)
+        && Array.isArray(v.keysDown) && v.keysDown.every((code) => typeof code === 'string');
+}
+
+// Checks everything in a recording loaded from JSON, so that a broken one fails here rather than
+// replaying something else.
+export function parseInputRecording(json: unknown): InputRecording {
+    if (!isObject(json) || !Array.isArray(json.frames))
+        throw new Error(`Not an input recording`);
+    if (json.version !== 1)
+        throw new Error(`Unsupported input recording version ${json.version}`);
+    if (typeof json.state !== 'string' || !isInputSnapshot(json.input))
+        throw new Error(`Input recording is missing its starting state`);
+    if (!isFiniteNumber(json.width) || !isFiniteNumber(json.height) || !isFiniteNumber(json.pixelRatio))
+        throw new Error(`Input recording is missing its canvas size`);
+
+    const frames = json.frames.map((frame: unknown, i: number): RecordedFrame => {
+        if (!isObject(frame) || !isFiniteNumber(frame.time) || !Array.isArray(frame.events))
+            throw new Error(`Input recording frame ${i + 1} must have a time and an "events" array`);
+
+        frame.events.forEach((e: unknown, j: number) => {
+            const problem = checkInputEvent(e);
+            if (problem !== null)
+                throw new Error(`Input recording frame ${i + 1}, event ${j + 1}: ${problem}`);
+        });
+        return { time: frame.time, events: frame.events as CanvasInputEvent[] };
+    });
+
+    return {
+        version: 1,
+        width: json.width,
+        height: json.height,
+        pixelRatio: json.pixelRatio,
+        state: json.state,
+        input: json.input,
+        frames,
+    };
+}
+
+export class InputRecorder {
+    private frames: RecordedFrame[] = [];
+    private pendingEvents: CanvasInputEvent[] = [];
+    private input: CanvasInputSnapshot;
+    // Between beginFrame and endFrame.
+    private inFrame = false;
+
+    constructor(private canvas: Canvas, private state: string) {
+        this.input = canvas.getInputSnapshot();
+        canvas.inputListener = (e) => {
+            this.pendingEvents.push(e);
+        };
+    }
+
+    // Called at the start of every frame, with everything that came in since the last one.
+    public beginFrame(time: number): void {
+        this.frames.push({ time, events: this.pendingEvents });
+        this.pendingEvents = [];
+        this.inFrame = true;
+    }
+
+    public endFrame(): void {
+        this.inFrame = false;
+    }
+
+    // Stops listening. A frame that is still in progress is dropped, since it holds whatever stopped the
+    // recording. Frames that were finished before stopping between frames are all kept.
+    public stop(): InputRecording {
+        this.canvas.inputListener = null;
+        if (this.inFrame)
+            this.frames.pop();
+
+        return {
+            version: 1,
+            width: this.canvas.width,
+            height: this.canvas.height,
+            pixelRatio: this.canvas.pixelRatio,
+            state: this.state,
+            input: this.input,
+            frames: this.frames,
+        };
+    }
+}
+
+// Feeds a recording back into a canvas, one frame at a time. The recorded frame times stand in for
+// the real clock, so a replay does not depend on how fast frames actually come in.
+export class InputPlayer {
+    private frameIndex = 0;
+    private livePixelRatio: number;
+    // Why the replay might not match the recording, for the user to see.
+    public problems: string[] = [];
+
+    constructor(private canvas: Canvas, private recording: InputRecording) {
+        this.livePixelRatio = canvas.pixelRatio;
+
+        if (canvas.width !== recording.width || canvas.height !== recording.height)
+            this.problems.push(`Replaying a ${recording.width}x${recording.height} recording on a ${canvas.width}x${canvas.height} canvas; pointer positions will not line up`);
+
+        canvas.pixelRatio = recording.pixelRatio;
+        canvas.restoreInputSnapshot(recording.input);
+        canvas.liveInput = false;
+    }
+
+    public get done(): boolean {
+        return this.frameIndex >= this.recording.frames.length;
+    }
+
+    // Hands the next frame's input to the canvas, and returns the frame's time.
+    public beginFrame(): number {
+        const frame = this.recording.frames[this.frameIndex++];
+        for (const e of frame.events)
+            this.canvas.handleInput(e);
+        return frame.time;
+    }
+
+    public stop(): void {
+        this.frameIndex = this.recording.frames.length;
+        this.canvas.pixelRatio = this.livePixelRatio;
+        this.canvas.liveInput = true;
+    }
+}
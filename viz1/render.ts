@@ -0,0 +1,361 @@
+
+import { ReadonlyVec2 } from 'gl-matrix';
+import { encodePNGDataURL } from './png';
+
+export interface TextStyle {
+    color: string;
+    // Font size, in points.
+    size: number;
+    family?: string;
+    italic?: boolean;
+    align?: 'left' | 'center' | 'right';
+    baseline?: 'alphabetic' | 'top' | 'middle' | 'bottom';
+}
+
+// Pixels laid out like the DOM's ImageData: rows of RGBA bytes from top to bottom, with alpha not
+// premultiplied.
+export interface PixelBuffer {
+    readonly width: number;
+    readonly height: number;
+    readonly data: Uint8ClampedArray;
+}
+
+// The small set of drawing primitives that everything in viz1 is built from. All coordinates are in
+// canvas pixels, with +Y going down. Line widths and sizes are passed through as-is; callers are
+// expected to have already scaled them with Canvas.getSize.
+export interface RenderBackend {
+    readonly width: number;
+    readonly height: number;
+
+    resize(width: number, height: number): void;
+
+    // Clears the whole surface. This also marks the start of a new frame for the backends that record.
+    clear(color: string): void;
+
+    fillRect(x: number, y: number, w: number, h: number, color: string): void;
+    strokeRect(x: number, y: number, w: number, h: number, color: string, lineWidth: number): void;
+    fillCircle(center: ReadonlyVec2, radius: number, color: string): void;
+    strokeCircle(center: ReadonlyVec2, radius: number, color: string, lineWidth: number): void;
+    strokeLine(a: ReadonlyVec2, b: ReadonlyVec2, color: string, lineWidth: number): void;
+    fillPolygon(points: ReadonlyVec2[], color: string): void;
+    fillText(text: string, x: number, y: number, style: TextStyle): void;
+    measureText(text: string, style: TextStyle): number;
+    // Draws the pixels stretched over the given rectangle. They are scaled without smoothing, so that
+    // each one stays a sharp square when drawn larger.
+    drawImage(image: PixelBuffer, x: number, y: number, w: number, h: number): void;
+
+    // Groups are purely semantic (an "arrow", a "grid"...). Backends that produce a document can
+    // use them to keep the structure of the drawing, the others ignore them.
+    pushGroup(name: string): void;
+    popGroup(): void;
+}
+
+function cssFont(style: TextStyle): string {
+    return `${style.italic ? 'italic ' : ''}${style.size}pt ${style.family ?? 'sans-serif'}`;
+}
+
+// Backends without a real text engine have to guess; this is close enough for sans-serif.
+function estimateTextWidth(text: string, style: TextStyle): number {
+    const pixelsPerPoint = 4 / 3;
+    return text.length * style.size * pixelsPerPoint * 0.55;
+}
+
+export class CanvasBackend implements RenderBackend {
+    private imageCanvas: HTMLCanvasElement | null = null;
+
+    constructor(public ctx: CanvasRenderingContext2D) {
+    }
+
+    public get width() { return this.ctx.canvas.width; }
+    public get height() { return this.ctx.canvas.height; }
+
+    public resize(width: number, height: number): void {
+        this.ctx.canvas.width = width;
+        this.ctx.canvas.height = height;
+    }
+
+    public clear(color: string): void {
+        this.fillRect(0, 0, this.width, this.height, color);
+    }
+
+    public fillRect(x: number, y: number, w: number, h: number, color: string): void {
+        this.ctx.fillStyle = color;
+        this.ctx.fillRect(x, y, w, h);
+    }
+
+    public strokeRect(x: number, y: number, w: number, h: number, color: string, lineWidth: number): void {
+        this.ctx.strokeStyle = color;
+        this.ctx.lineWidth = lineWidth;
+        this.ctx.strokeRect(x, y, w, h);
+    }
+
+    public fillCircle(center: ReadonlyVec2, radius: number, color: string): void {
+        this.ctx.beginPath();
+        this.ctx.arc(center[0], center[1], radius, 0.0, Math.PI * 2);
+        this.ctx.closePath();
+        this.ctx.fillStyle = color;
+        this.ctx.fill();
+    }
+
+    public strokeCircle(center: ReadonlyVec2, radius: number, color: string, lineWidth: number): void {
+        this.ctx.beginPath();
+        this.ctx.arc(center[0], center[1], radius, 0.0, Math.PI * 2);
+        this.ctx.closePath();
+        this.ctx.strokeStyle = color;
+        this.ctx.lineWidth = lineWidth;
+        this.ctx.stroke();
+    }
+
+    public strokeLine(a: ReadonlyVec2, b: ReadonlyVec2, color: string, lineWidth: number): void {
+        this.ctx.beginPath();
+        this.ctx.moveTo(a[0], a[1]);
+        this.ctx.lineTo(b[0], b[1]);
+        this.ctx.strokeStyle = color;
+        this.ctx.lineWidth = lineWidth;
+        this.ctx.stroke();
+    }
+
+    public fillPolygon(points: ReadonlyVec2[], color: string): void {
+        if (points.length < 3)
+            return;
+
+        this.ctx.beginPath();
+        this.ctx.moveTo(points[0][0], points[0][1]);
+        for (let i = 1; i < points.length; i++)
+            this.ctx.lineTo(points[i][0], points[i][1]);
+        this.ctx.closePath();
+        this.ctx.fillStyle = color;
+        this.ctx.fill();
+    }
+
+    private applyTextStyle(style: TextStyle): void {
+        this.ctx.font = cssFont(style);
+        this.ctx.fillStyle = style.color;
+        this.ctx.textAlign = style.align ?? 'left';
+        this.ctx.textBaseline = style.baseline ?? 'alphabetic';
+    }
+
+    public fillText(text: string, x: number, y: number, style: TextStyle): void {
+        this.applyTextStyle(style);
+        this.ctx.fillText(text, x, y);
+    }
+
+    public measureText(text: string, style: TextStyle): number {
+        this.applyTextStyle(style);
+        return this.ctx.measureText(text).width;
+    }
+
+    public drawImage(image: PixelBuffer, x: number, y: number, w: number, h: number): void {
+        // putImageData ignores scaling and compositing, so the pixels go through a canvas of their own.
+        if (this.imageCanvas === null)
+            this.imageCanvas = document.createElement('canvas');
+        const imageCanvas = this.imageCanvas;
+        if (imageCanvas.width !== image.width || imageCanvas.height !== image.height) {
+            imageCanvas.width = image.width;
+            imageCanvas.height = image.height;
+        }
+        const imageContext = imageCanvas.getContext('2d')!;
+        const imageData = imageContext.createImageData(image.width, image.height);
+        imageData.data.set(image.data);
+        imageContext.putImageData(imageData, 0, 0);
+
+        this.ctx.imageSmoothingEnabled = false;
+        this.ctx.drawImage(imageCanvas, x, y, w, h);
+        this.ctx.imageSmoothingEnabled = true;
+    }
+
+    // A canvas has nowhere to keep groups.
+    public pushGroup(): void {
+    }
+
+    public popGroup(): void {
+    }
+}
+
+export type RenderCommand =
+    | { type: 'clear', color: string }
+    | { type: 'fillRect', x: number, y: number, w: number, h: number, color: string }
+    | { type: 'strokeRect', x: number, y: number, w: number, h: number, color: string, lineWidth: number }
+    | { type: 'fillCircle', center: [number, number], radius: number, color: string }
+    | { type: 'strokeCircle', center: [number, number], radius: number, color: string, lineWidth: number }
+    | { type: 'strokeLine', a: [number, number], b: [number, number], color: string, lineWidth: number }
+    | { type: 'fillPolygon', points: [number, number][], color: string }
+    | { type: 'fillText', text: string, x: number, y: number, style: TextStyle }
+    // The pixels themselves are left out, but a hash of them is kept so that frames can still be compared.
+    | { type: 'drawImage', width: number, height: number, hash: number, x: number, y: number, w: number, h: number }
+    | { type: 'pushGroup', name: string }
+    | { type: 'popGroup' };
+
+function point(v: ReadonlyVec2): [number, number] {
+    return [v[0], v[1]];
+}
+
+// FNV-1a.
+function hashBytes(data: Uint8ClampedArray): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < data.length; i++)
+        hash = Math.imul(hash ^ data[i], 0x01000193);
+    return hash >>> 0;
+}
+
+// Records every draw call made in a frame as plain data, for comparing frames against known-good output.
+export class RecordingBackend implements RenderBackend {
+    public commands: RenderCommand[] = [];
+
+    constructor(public width: number, public height: number) {
+    }
+
+    public resize(width: number, height: number): void {
+        this.width = width;
+        this.height = height;
+    }
+
+    public clear(color: string): void {
+        this.commands.length = 0;
+        this.commands.push({ type: 'clear', color });
+    }
+
+    public fillRect(x: number, y: number, w: number, h: number, color: string): void {
+        this.commands.push({ type: 'fillRect', x, y, w, h, color });
+    }
+
+    public strokeRect(x: number, y: number, w: number, h: number, color: string, lineWidth: number): void {
+        this.commands.push({ type: 'strokeRect', x, y, w, h, color, lineWidth });
+    }
+
+    public fillCircle(center: ReadonlyVec2, radius: number, color: string): void {
+        this.commands.push({ type: 'fillCircle', center: point(center), radius, color });
+    }
+
+    public strokeCircle(center: ReadonlyVec2, radius: number, color: string, lineWidth: number): void {
+        this.commands.push({ type: 'strokeCircle', center: point(center), radius, color, lineWidth });
+    }
+
+    public strokeLine(a: ReadonlyVec2, b: ReadonlyVec2, color: string, lineWidth: number): void {
+        this.commands.push({ type: 'strokeLine', a: point(a), b: point(b), color, lineWidth });
+    }
+
+    public fillPolygon(points: ReadonlyVec2[], color: string): void {
+        this.commands.push({ type: 'fillPolygon', points: points.map(point), color });
+    }
+
+    public fillText(text: string, x: number, y: number, style: TextStyle): void {
+        this.commands.push({ type: 'fillText', text, x, y, style: { ... style } });
+    }
+
+    public measureText(text: string, style: TextStyle): number {
+        return estimateTextWidth(text, style);
+    }
+
+    public drawImage(image: PixelBuffer, x: number, y: number, w: number, h: number): void {
+        this.commands.push({ type: 'drawImage', width: image.width, height: image.height, hash: hashBytes(image.data), x, y, w, h });
+    }
+
+    public pushGroup(name: string): void {
+        this.commands.push({ type: 'pushGroup', name });
+    }
+
+    public popGroup(): void {
+        this.commands.push({ type: 'popGroup' });
+    }
+}
+
+function svgNumber(n: number): string {
+    // Two decimal places is well below a pixel, and keeps the output stable and readable.
+    return (Math.round(n * 100) / 100).toString();
+}
+
+function svgEscape(s: string): string {
+    return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+const svgTextAnchor = { left: 'start', center: 'middle', right: 'end' };
+const svgDominantBaseline = { alphabetic: 'alphabetic', top: 'text-before-edge', middle: 'central', bottom: 'text-after-edge' };
+
+// Builds an SVG document out of the draw calls made since the last clear.
+export class SVGBackend implements RenderBackend {
+    private elements: string[] = [];
+    private groupDepth = 0;
+
+    constructor(public width: number, public height: number) {
+    }
+
+    public resize(width: number, height: number): void {
+        this.width = width;
+        this.height = height;
+    }
+
+    public clear(color: string): void {
+        this.elements.length = 0;
+        this.groupDepth = 0;
+        this.fillRect(0, 0, this.width, this.height, color);
+    }
+
+    private emit(element: string): void {
+        this.elements.push(`${'  '.repeat(this.groupDepth + 1)}${element}`);
+    }
+
+    public fillRect(x: number, y: number, w: number, h: number, color: string): void {
+        this.emit(`<rect x="${svgNumber(x)}" y="${svgNumber(y)}" width="${svgNumber(w)}" height="${svgNumber(h)}" fill="${svgEscape(color)}" />`);
+    }
+
+    public strokeRect(x: number, y: number, w: number, h: number, color: string, lineWidth: number): void {
+        this.emit(`<rect x="${svgNumber(x)}" y="${svgNumber(y)}" width="${svgNumber(w)}" height="${svgNumber(h)}" fill="none" stroke="${svgEscape(color)}" stroke-width="${svgNumber(lineWidth)}" />`);
+    }
+
+    public fillCircle(center: ReadonlyVec2, radius: number, color: string): void {
+        this.emit(`<circle cx="${svgNumber(center[0])}" cy="${svgNumber(center[1])}" r="${svgNumber(radius)}" fill="${svgEscape(color)}" />`);
+    }
+
+    public strokeCircle(center: ReadonlyVec2, radius: number, color: string, lineWidth: number): void {
+        this.emit(`<circle cx="${svgNumber(center[0])}" cy="${svgNumber(center[1])}" r="${svgNumber(radius)}" fill="none" stroke="${svgEscape(color)}" stroke-width="${svgNumber(lineWidth)}" />`);
+    }
+
+    public strokeLine(a: ReadonlyVec2, b: ReadonlyVec2, color: string, lineWidth: number): void {
+        this.emit(`<line x1="${svgNumber(a[0])}" y1="${svgNumber(a[1])}" x2="${svgNumber(b[0])}" y2="${svgNumber(b[1])}" stroke="${svgEscape(color)}" stroke-width="${svgNumber(lineWidth)}" />`);
+    }
+
+    public fillPolygon(points: ReadonlyVec2[], color: string): void {
+        if (points.length < 3)
+            return;
+
+        const pointsAttr = points.map((p) => `${svgNumber(p[0])},${svgNumber(p[1])}`).join(' ');
+        this.emit(`<polygon points="${pointsAttr}" fill="${svgEscape(color)}" />`);
+    }
+
+    public fillText(text: string, x: number, y: number, style: TextStyle): void {
+        const anchor = svgTextAnchor[style.align ?? 'left'];
+        const baseline = svgDominantBaseline[style.baseline ?? 'alphabetic'];
+        const family = style.family ?? 'sans-serif';
+        const fontStyle = style.italic ? ' font-style="italic"' : '';
+        this.emit(`<text x="${svgNumber(x)}" y="${svgNumber(y)}" font-family="${svgEscape(family)}" font-size="${svgNumber(style.size)}pt"${fontStyle} text-anchor="${anchor}" dominant-baseline="${baseline}" fill="${svgEscape(style.color)}">${svgEscape(text)}</text>`);
+    }
+
+    public measureText(text: string, style: TextStyle): number {
+        return estimateTextWidth(text, style);
+    }
+
+    public drawImage(image: PixelBuffer, x: number, y: number, w: number, h: number): void {
+        this.emit(`<image x="${svgNumber(x)}" y="${svgNumber(y)}" width="${svgNumber(w)}" height="${svgNumber(h)}" preserveAspectRatio="none" image-rendering="pixelated" href="${encodePNGDataURL(image)}" />`);
+    }
+
+    public pushGroup(name: string): void {
+        this.emit(`<g class="${svgEscape(name)}">`);
+        this.groupDepth++;
+    }
+
+    public popGroup(): void {
+        this.groupDepth--;
+        this.emit(`</g>`);
+    }
+
+    public getSVG(): string {
+        const w = svgNumber(this.width), h = svgNumber(this.height);
+        return [
+            `<svg xmlns="http://www.w3.org/2000/svg" width="${w}" height="${h}" viewBox="0 0 ${w} ${h}">`,
+            ... this.elements,
+            `</svg>`,
+            ``,
+        ].join('\n');
+    }
+}
@@ -0,0 +1,286 @@
+
+// The scene state: how it is validated, saved, migrated between versions, and put into links.
+
+// The demo being shown, plus the merged state slices of every registered demo.
+export interface VizState {
+    demo: string;
+    [field: string]: unknown;
+}
+
+// Constraints on a single state field, on top of having the same type as its default.
+export interface FieldRule {
+    // For vectors, these apply to each component.
+    min?: number;
+    max?: number;
+    integer?: boolean;
+    // Vectors are normalized.
+    unit?: boolean;
+    // For strings, the allowed values.
+    values?: () => readonly string[];
+}
+
+export type StateRules<S> = { [K in keyof S]?: FieldRule };
+
+export interface StateSchema {
+    defaults: VizState;
+    rules: StateRules<VizState>;
+}
+
+export const STATE_VERSION = 2;
+
+export function cloneState(state: VizState): VizState {
+    const clone: VizState = { ... state };
+    for (const key in clone) {
+        const value = clone[key];
+        if (value instanceof Float32Array)
+            clone[key] = value.slice();
+    }
+    return clone;
+}
+
+// Fields as they come out of JSON, before they're checked.
+type UncheckedFields = { [field: string]: unknown };
+
+function isObject(v: unknown): v is UncheckedFields {
+    return typeof v === 'object' && v !== null && !Array.isArray(v);
+}
+
+function isVectorLike(v: unknown): v is ArrayLike<number> {
+    return Array.isArray(v) || v instanceof Float32Array;
+}
+
+// Checks one field against the type of its default and its rule. Returns the value to use, which is the
+// default if the value is unusable. Anything that had to be changed is described in problems.
+function sanitizeField(name: string, value: unknown, valueDefault: unknown, rule: FieldRule, problems: string[]): unknown {
+    const clampNumber = (n: number, what: string): number => {
+        let v = n;
+        if (rule.integer)
+            v = Math.round(v);
+        if (rule.min !== undefined)
+            v = Math.max(v, rule.min);
+        if (rule.max !== undefined)
+            v = Math.min(v, rule.max);
+        if (v !== n)
+            problems.push(`${what}: ${n} is not allowed, using ${v}`);
+        return v;
+    };
+
+    if (typeof valueDefault === 'number') {
+        if (typeof value !== 'number' || !Number.isFinite(value)) {
+            problems.push(`${name}: expected a number, got ${JSON.stringify(value)}`);
+            return valueDefault;
+        }
+        return clampNumber(value, name);
+    } else if (valueDefault instanceof Float32Array) {
+        if (!isVectorLike(value) || value.length !== valueDefault.length || !Array.from(value).every((n) => typeof n === 'number' && Number.isFinite(n))) {
+            problems.push(`${name}: expected a vector of ${valueDefault.length} numbers, got ${JSON.stringify(value)}`);
+            return valueDefault.slice();
+        }
+
+        const vector = valueDefault.slice();
+        for (let i = 0; i < vector.length; i++)
+            vector[i] = clampNumber(value[i], `${name}[${i}]`);
+
+        if (rule.unit) {
+            const length = Math.hypot(... vector);
+            if (length < 1e-6) {
+                problems.push(`${name}: expected a direction, got a zero vector`);
+                return valueDefault.slice();
+            }
+            for (let i = 0; i < vector.length; i++)
+                vector[i] /= length;
+        }
+        return vector;
+    } else if (typeof valueDefault === 'string') {
+        if (typeof value !== 'string') {
+            problems.push(`${name}: expected a string, got ${JSON.stringify(value)}`);
+            return valueDefault;
+        }
+        if (rule.values !== undefined && !rule.values().includes(value)) {
+            problems.push(`${name}: unknown value ${JSON.stringify(value)}`);
+            return valueDefault;
+        }
+        return value;
+    } else if (typeof valueDefault === 'boolean') {
+        if (typeof value !== 'boolean') {
+            problems.push(`${name}: expected true or false, got ${JSON.stringify(value)}`);
+            return valueDefault;
+        }
+        return value;
+    } else {
+        // There's no way to check it, so it can't be trusted.
+        problems.push(`${name}: can't load a field of this type`);
+        return valueDefault;
+    }
+}
+
+// Validates the given fields and copies them into state. Vectors can be given as arrays.
+export function assignStateFields(schema: StateSchema, state: VizState, fields: UncheckedFields, problems: string[] = []): string[] {
+    for (const key in fields) {
+        if (!(key in schema.defaults)) {
+            problems.push(`${key}: unknown field`);
+            continue;
+        }
+
+        state[key] = sanitizeField(key, fields[key], schema.defaults[key], schema.rules[key] ?? {}, problems);
+    }
+    return problems;
+}
+
+// The demos in the order of the old Demo enum, which version 1 saves used for the demo field.
+const legacyDemoIds = ['DotProduct', 'DotProductNormal', 'SurfaceNormal', 'CameraFrustum', 'CameraFrustumProjectionMatrix', 'PointLight', 'PointLightPixel'];
+
+// migrations[n] turns a version n state into a version n + 1 state.
+const migrations: { [version: number]: (state: UncheckedFields) => UncheckedFields } = {
+    // Version 1 saved the bare state object, with vectors written as { "0": x, "1": y }, and at first
+    // with the demo as a number.
+    1: (state) => {
+        const migrated: UncheckedFields = {};
+        for (const key in state) {
+            const value = state[key];
+            if (isObject(value) && '0' in value) {
+                const vector: unknown[] = [];
+                for (let i = 0; `${i}` in value; i++)
+                    vector.push(value[`${i}`]);
+                migrated[key] = vector;
+            } else {
+                migrated[key] = value;
+            }
+        }
+
+        if (typeof migrated.demo === 'number')
+            migrated.demo = legacyDemoIds[migrated.demo];
+
+        return migrated;
+    },
+};
+
+function toJSONValue(value: unknown): unknown {
+    if (value instanceof Float32Array)
+        return Array.from(value);
+    return value;
+}
+
+export function serializeState(state: VizState): string {
+    const fields: { [field: string]: unknown } = {};
+    for (const key in state)
+        fields[key] = toJSONValue(state[key]);
+    return JSON.stringify({ version: STATE_VERSION, state: fields });
+}
+
+// Parses a saved state of any version. Fields that are missing or unusable are left at their defaults.
+export function parseState(schema: StateSchema, stateString: string): { state: VizState, problems: string[] } {
+    const state = cloneState(schema.defaults);
+    const problems: string[] = [];
+
+    let json: unknown;
+    try {
+        json = JSON.parse(stateString);
+    } catch(e) {
+        problems.push(`not valid JSON`);
+        return { state, problems };
+    }
+
+    if (!isObject(json)) {
+        problems.push(`expected an object`);
+        return { state, problems };
+    }
+
+    // Version 1 had no version field at all.
+    let version = typeof json.version === 'number' ? json.version : 1;
+    const savedFields = version === 1 ? json : json.state;
+
+    if (version > STATE_VERSION) {
+        problems.push(`saved by a newer version (${version})`);
+        return { state, problems };
+    }
+    if (!Number.isInteger(version) || version < 1) {
+        problems.push(`unknown version ${version}`);
+        return { state, problems };
+    }
+    if (!isObject(savedFields)) {
+        problems.push(`expected an object`);
+        return { state, problems };
+    }
+
+    let fields = savedFields;
+    while (version < STATE_VERSION)
+        fields = migrations[version++](fields);
+
+    assignStateFields(schema, state, fields, problems);
+    return { state, problems };
+}
+
+// Links carry the fields that differ from the defaults in the URL hash, e.g.
+// #v=2&demo=PointLightPixel&lightPos=0.3,0.8
+
+function formatHashNumber(n: number): string {
+    // Enough precision to get the same picture back, without the float32 noise.
+    return `${Number(n.toPrecision(6))}`;
+}
+
+function isDefaultValue(value: unknown, valueDefault: unknown): boolean {
+    if (value instanceof Float32Array && valueDefault instanceof Float32Array)
+        return value.every((v, i) => formatHashNumber(v) === formatHashNumber(valueDefault[i]));
+    if (typeof value === 'number' && typeof valueDefault === 'number')
+        return formatHashNumber(value) === formatHashNumber(valueDefault);
+    return value === valueDefault;
+}
+
+export function encodeStateHash(schema: StateSchema, state: VizState): string {
+    const params = new URLSearchParams();
+    params.set('v', `${STATE_VERSION}`);
+    params.set('demo', state.demo);
+
+    for (const key in state) {
+        const value = state[key];
+        if (key === 'demo' || isDefaultValue(value, schema.defaults[key]))
+            continue;
+
+        if (value instanceof Float32Array)
+            params.set(key, Array.from(value, formatHashNumber).join(','));
+        else if (typeof value === 'number')
+            params.set(key, formatHashNumber(value));
+        else
+            params.set(key, `${value}`);
+    }
+
+    // Commas are safe in a hash, and much easier to read unescaped.
+    return `#${params.toString().replace(/%2C/g, ',')}`;
+}
+
+// Returns null if the hash doesn't hold a state at all, and a null state if it holds one that can't be
+// loaded, like one from another version.
+export function decodeStateHash(schema: StateSchema, hash: string): { state: VizState | null, problems: string[] } | null {
+    const params = new URLSearchParams(hash.replace(/^#/, ''));
+    if (!params.has('v'))
+        return null;
+
+    const problems: string[] = [];
+    const version = Number(params.get('v'));
+    if (version !== STATE_VERSION) {
+        problems.push(`link is for state version ${params.get('v')}`);
+        return { state: null, problems };
+    }
+
+    const state = cloneState(schema.defaults);
+
+    const fields: { [field: string]: unknown } = {};
+    params.forEach((text, key) => {
+        if (key === 'v')
+            return;
+
+        const valueDefault = schema.defaults[key];
+        if (valueDefault instanceof Float32Array)
+            fields[key] = text.split(',').map((s) => s.trim() === '' ? NaN : Number(s));
+        else if (typeof valueDefault === 'number')
+            fields[key] = text.trim() === '' ? NaN : Number(text);
+        else if (typeof valueDefault === 'boolean')
+            fields[key] = text === 'true' ? true : text === 'false' ? false : text;
+        else
+            fields[key] = text;
+    });
+
+    assignStateFields(schema, state, fields, problems);
+    return { state, problems };
+}
@@ -0,0 +1,83 @@
+
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { Canvas } from '../canvas';
+import { Formula, arrow, drawFormula, fraction, measureFormula, subscript, superscript, variable } from '../formula';
+import { RecordingBackend, RenderCommand } from '../render';
+
+// Checks where the scripts, fractions and arrows put their parts, relative to the same formula without them.
+
+const backend = new RecordingBackend(1280, 720);
+const canvas = new Canvas(backend, 1);
+
+function draw(formula: Formula): RenderCommand[] {
+    backend.clear('#fff');
+    drawFormula(canvas, formula, 100, 200);
+    return backend.commands.slice(1);
+}
+
+function findText(commands: RenderCommand[], text: string): Extract<RenderCommand, { type: 'fillText' }> {
+    const command = commands.find((c): c is Extract<RenderCommand, { type: 'fillText' }> => c.type === 'fillText' && c.text === text);
+    assert.ok(command !== undefined, `${text} wasn't drawn`);
+    return command;
+}
+
+test('subscripts go after the base, smaller and below the baseline', () => {
+    const base = measureFormula(canvas, variable('x'));
+    const scripted = measureFormula(canvas, subscript(variable('x'), 'ndc'));
+    assert.ok(scripted.width > base.width);
+    assert.ok(scripted.descent > base.descent);
+
+    const commands = draw(subscript(variable('x'), 'ndc'));
+    const x = findText(commands, 'x'), ndc = findText(commands, 'ndc');
+    assert.equal(x.y, 200);
+    assert.ok(ndc.x > x.x);
+    assert.ok(ndc.y > x.y);
+    assert.ok(ndc.style.size < x.style.size);
+});
+
+test('superscripts go after the base, smaller and above the baseline', () => {
+    const base = measureFormula(canvas, variable('r'));
+    const scripted = measureFormula(canvas, superscript(variable('r'), '2'));
+    assert.ok(scripted.width > base.width);
+    assert.ok(scripted.ascent > base.ascent);
+
+    const commands = draw(superscript(variable('r'), '2'));
+    const r = findText(commands, 'r'), two = findText(commands, '2');
+    assert.ok(two.x > r.x);
+    assert.ok(two.y < r.y);
+    assert.ok(two.style.size < r.style.size);
+});
+
+test('fractions stack the numerator over a bar over the denominator', () => {
+    const formula = fraction('1', superscript(variable('r'), '2'));
+    const metrics = measureFormula(canvas, formula);
+    const line = measureFormula(canvas, '1');
+    assert.ok(metrics.ascent > line.ascent);
+    assert.ok(metrics.descent > line.descent);
+
+    const commands = draw(formula);
+    const bars = commands.filter((c): c is Extract<RenderCommand, { type: 'strokeLine' }> => c.type === 'strokeLine');
+    assert.equal(bars.length, 1);
+    const [bar] = bars;
+    assert.equal(bar.a[1], bar.b[1]);
+    assert.ok(findText(commands, '1').y < bar.a[1]);
+    assert.ok(findText(commands, 'r').y > bar.a[1]);
+    assert.ok(bar.b[0] - bar.a[0] > 0 && bar.b[0] - bar.a[0] <= metrics.width);
+});
+
+test('arrows go over the whole base, above its ascent', () => {
+    const base = measureFormula(canvas, variable('L'));
+    const accented = measureFormula(canvas, arrow(variable('L')));
+    assert.equal(accented.width, base.width);
+    assert.ok(accented.ascent > base.ascent);
+    assert.equal(accented.descent, base.descent);
+
+    const commands = draw(arrow(variable('L')));
+    const lines = commands.filter((c): c is Extract<RenderCommand, { type: 'strokeLine' }> => c.type === 'strokeLine');
+    assert.ok(lines.length > 0);
+    for (const line of lines) {
+        assert.ok(line.a[1] < 200 - base.ascent && line.b[1] < 200 - base.ascent);
+        assert.ok(line.a[0] >= 100 && line.b[0] <= 100 + base.width + 0.01);
+    }
+});
@@ -0,0 +1,58 @@
+
+import assert from 'node:assert/strict';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { test } from 'node:test';
+import { Canvas } from '../canvas';
+import { getDemos } from '../demo';
+import { registerBuiltinDemos } from '../demos';
+import { RecordingBackend, RenderCommand } from '../render';
+import { Viz } from '../viz';
+
+// Draws the first frame of every demo, at its default state, into a RecordingBackend, and compares the draw
+// calls with the ones checked in under test/golden. After a change that is meant to alter what a demo draws,
+// run the tests with UPDATE_GOLDEN=1 to write the new output, and look over the diff before committing it.
+
+const goldenDir = join(__dirname, 'golden');
+const updateGolden = process.env.UPDATE_GOLDEN === '1';
+
+// Rounded like the SVG export, well below a pixel, so the files don't churn with floating point noise.
+function roundNumbers(value: unknown): unknown {
+    if (typeof value === 'number')
+        return Math.round(value * 100) / 100;
+    if (Array.isArray(value))
+        return value.map(roundNumbers);
+    if (typeof value === 'object' && value !== null)
+        return Object.fromEntries(Object.entries(value).map(([key, v]) => [key, roundNumbers(v)]));
+    return value;
+}
+
+// One command per line, so a diff points at the draw calls that changed.
+function formatCommands(commands: RenderCommand[]): string {
+    return commands.map((command) => JSON.stringify(roundNumbers(command))).join('\n') + '\n';
+}
+
+function drawFirstFrame(demoId: string): RenderCommand[] {
+    const backend = new RecordingBackend(1280, 720);
+    const viz = new Viz(new Canvas(backend, 1), null);
+    viz.setDemo(demoId);
+    viz.update(0);
+    return backend.commands;
+}
+
+registerBuiltinDemos();
+
+for (const demo of getDemos()) {
+    test(`${demo.id} draws its golden output`, () => {
+        const actual = formatCommands(drawFirstFrame(demo.id));
+        const path = join(goldenDir, `${demo.id}.jsonl`);
+        if (updateGolden) {
+            mkdirSync(goldenDir, { recursive: true });
+            writeFileSync(path, actual);
+            return;
+        }
+
+        assert.ok(existsSync(path), `There's no golden output for ${demo.id}; run the tests with UPDATE_GOLDEN=1 to write it`);
+        assert.equal(actual, readFileSync(path, 'utf8'));
+    });
+}
@@ -0,0 +1,130 @@
+
+import { vec2, vec3 } from 'gl-matrix';
+import { clamp, lerp } from './util';
+
+export type EasingFunc = (t: number) => number;
+
+export const easings = {
+    linear: (t: number) => t,
+    easeIn: (t: number) => t * t * t,
+    easeOut: (t: number) => 1 - Math.pow(1 - t, 3),
+    easeInOut: (t: number) => t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2,
+};
+
+export type EasingName = keyof typeof easings;
+
+export interface TweenOptions {
+    // In milliseconds.
+    duration?: number;
+    easing?: EasingName | EasingFunc;
+}
+
+export const tweenOptionsDefault: Required<TweenOptions> = {
+    duration: 600,
+    easing: 'easeInOut',
+};
+
+// Anything we know how to tween: plain numbers, and vectors.
+export type TweenValue = number | Float32Array;
+
+export function isTweenValue(v: unknown): v is TweenValue {
+    return typeof v === 'number' || v instanceof Float32Array;
+}
+
+function isUnitVector(v: Float32Array): boolean {
+    let sqLen = 0;
+    for (let i = 0; i < v.length; i++)
+        sqLen += v[i] * v[i];
+    return Math.abs(sqLen - 1) < 1e-3;
+}
+
+// Rotates from a towards b by the fraction t of the angle between them, so the result stays unit length.
+function slerp(dst: Float32Array, a: Float32Array, b: Float32Array, t: number): void {
+    if (a.length === 2) {
+        let delta = Math.atan2(b[1], b[0]) - Math.atan2(a[1], a[0]);
+        // Take the short way around.
+        if (delta > Math.PI)
+            delta -= Math.PI * 2;
+        else if (delta < -Math.PI)
+            delta += Math.PI * 2;
+        const theta = Math.atan2(a[1], a[0]) + delta * t;
+        vec2.set(dst, Math.cos(theta), Math.sin(theta));
+    } else if (a.length === 3) {
+        vec3.slerp(dst, a, b, t);
+        vec3.normalize(dst, dst);
+    } else {
+        for (let i = 0; i < dst.length; i++)
+            dst[i] = lerp(a[i], b[i], t);
+    }
+}
+
+class Tween {
+    private from: TweenValue;
+    private slerp: boolean;
+    private easing: EasingFunc;
+
+    constructor(from: TweenValue, public to: TweenValue, private startTime: number, private duration: number, easing: EasingName | EasingFunc) {
+        this.from = typeof from === 'number' ? from : from.slice();
+        this.slerp = typeof from !== 'number' && typeof to !== 'number' && isUnitVector(from) && isUnitVector(to);
+        this.easing = typeof easing === 'string' ? easings[easing] : easing;
+    }
+
+    // Returns the new value of the field, and whether the tween is done. Vectors are written in place,
+    // so that anything holding on to the field's vector (like a drag) keeps seeing it.
+    public evaluate(current: TweenValue, time: number): [TweenValue, boolean] {
+        const t = this.duration > 0 ? clamp((time - this.startTime) / this.duration, 0, 1) : 1;
+        const done = t >= 1;
+        const k = this.easing(t);
+
+        if (typeof this.from === 'number') {
+            return [done ? this.to as number : lerp(this.from, this.to as number, k), done];
+        } else {
+            const dst = current as Float32Array, from = this.from, to = this.to as Float32Array;
+            if (done)
+                dst.set(to);
+            else if (this.slerp)
+                slerp(dst, from, to, k);
+            else
+                for (let i = 0; i < dst.length; i++)
+                    dst[i] = lerp(from[i], to[i], k);
+            return [dst, done];
+        }
+    }
+}
+
+// Animates fields of a state object over time.
+export class Animator {
+    private tweens = new Map<string, Tween>();
+
+    public animate(state: { [field: string]: unknown }, field: string, to: TweenValue, time: number, options: TweenOptions = {}): void {
+        const from = state[field];
+        if (!isTweenValue(from))
+            throw new Error(`Cannot animate ${field}, it is not a number or a vector`);
+        if (typeof from !== typeof to || (typeof from !== 'number' && from.length !== (to as Float32Array).length))
+            throw new Error(`Cannot animate ${field}, the target value is of a different type`);
+
+        const duration = options.duration ?? tweenOptionsDefault.duration;
+        const easing = options.easing ?? tweenOptionsDefault.easing;
+        this.tweens.set(field, new Tween(from, typeof to === 'number' ? to : to.slice(), time, duration, easing));
+    }
+
+    public update(state: { [field: string]: unknown }, time: number): void {
+        for (const [field, tween] of this.tweens) {
+            const [value, done] = tween.evaluate(state[field] as TweenValue, time);
+            state[field] = value;
+            if (done)
+                this.tweens.delete(field);
+        }
+    }
+
+    public isAnimating(field?: string): boolean {
+        return field !== undefined ? this.tweens.has(field) : this.tweens.size > 0;
+    }
+
+    public cancel(field?: string): void {
+        if (field !== undefined)
+            this.tweens.delete(field);
+        else
+            this.tweens.clear();
+    }
+}
@@ -0,0 +1,466 @@
+
+import { vec2 } from 'gl-matrix';
+import { Canvas } from './canvas';
+import { clamp, invlerp, lerp, saturate } from './util';
+
+// An immediate-mode UI: widgets are drawn and handled in the same call, every frame, and hand back the
+// possibly changed value. Widgets are identified by their label, unless they are given an id.
+//
+// Widgets are placed by a column layout, with the label to the left of the column's x and the control
+// to the right of it. Sizes are authored for a pixel ratio of 2, like the rest of the canvas drawing.
+
+// What the UI needs from its owner. Both can change between calls, e.g. while exporting a frame.
+export interface UIContext {
+    readonly canvas: Canvas;
+    // False while drawing a frame for export, so that nothing reacts to the mouse or shows focus.
+    readonly interactive: boolean;
+}
+
+export const uiStyle = {
+    textSize: 24,
+    rowHeight: 40,
+    labelGap: 24,
+    sliderWidth: 200,
+    trackColor: '#ccc',
+    trackWidth: 8,
+    handleColor: '#888',
+    handleActiveColor: '#555',
+    handleSize: 20,
+    handleHotSize: 24,
+    labelColor: '#999',
+    labelActiveColor: '#333',
+    valueColor: '#333',
+    boxSize: 24,
+    boxColor: '#888',
+    buttonPadding: 12,
+    buttonHotColor: 'rgba(0, 0, 0, 0.08)',
+    buttonActiveColor: 'rgba(0, 0, 0, 0.16)',
+    backgroundColor: 'rgba(255, 255, 255, 0.7)',
+    focusColor: '#39f',
+};
+
+interface WidgetOptions {
+    id?: string;
+}
+
+export interface SliderOptions extends WidgetOptions {
+    min: number;
+    max: number;
+    // How much the arrow keys move the slider. Defaults to a hundredth of the range.
+    step?: number;
+    format?: (value: number) => string;
+}
+
+export interface StepperOptions extends WidgetOptions {
+    step: number;
+    min?: number;
+    max?: number;
+    format?: (value: number) => string;
+}
+
+export interface RadioOption<T> {
+    value: T;
+    label: string;
+}
+
+interface Rect {
+    x: number;
+    y: number;
+    w: number;
+    h: number;
+}
+
+interface ColumnLayout {
+    x: number;
+    y: number;
+    rowHeight: number;
+}
+
+export class UI {
+    // The widget that has the mouse, from the press until the release.
+    public active: string | null = null;
+    // The widget under the mouse this frame.
+    public hot: string | null = null;
+    // The widget that gets keyboard input. Tab and Shift+Tab move it between the widgets on screen.
+    public focus: string | null = null;
+    // Set when a widget's value changed this frame from a click or a key press, rather than during a drag.
+    public committed = false;
+
+    // Widgets in the order they were drawn this frame, which is also the tab order.
+    private widgetIds: string[] = [];
+    // Where the widgets were last frame, and so far this frame.
+    private lastBounds: Rect[] = [];
+    private bounds: Rect[] = [];
+    // Widgets are only grabbed by a fresh press, not by dragging something else over them.
+    private mouseButtonLast = 0;
+    private mousePressed = false;
+    private layout: ColumnLayout | null = null;
+
+    constructor(private ctx: UIContext) {
+    }
+
+    private get canvas(): Canvas {
+        return this.ctx.canvas;
+    }
+
+    // Whether the scene should leave the mouse alone. Scenes are drawn before the widgets on top of them,
+    // so this goes by where the widgets were last frame. That also works for touches, which don't hover.
+    public get wantsMouse(): boolean {
+        return this.active !== null || this.lastBounds.some((r) => this.isMouseInRect(r.x, r.y, r.w, r.h));
+    }
+
+    public beginFrame(): void {
+        this.hot = null;
+        this.committed = false;
+        this.mousePressed = this.canvas.mouseButton !== 0 && this.mouseButtonLast === 0;
+        this.widgetIds = [];
+        this.bounds = [];
+    }
+
+    public endFrame(): void {
+        // Widgets that weren't drawn this frame can't keep the mouse or the focus.
+        if (this.active !== null && !this.widgetIds.includes(this.active))
+            this.active = null;
+        if (this.focus !== null && !this.widgetIds.includes(this.focus))
+            this.focus = null;
+
+        if (this.canvas.isKeyDownEventTriggered(`Tab`) && this.widgetIds.length > 0) {
+            const delta = this.isShiftDown() ? -1 : 1;
+            const index = this.focus !== null ? this.widgetIds.indexOf(this.focus) : (delta > 0 ? -1 : 0);
+            this.focus = this.widgetIds[(index + delta + this.widgetIds.length) % this.widgetIds.length];
+        }
+
+        if (this.canvas.isKeyDownEventTriggered(`Escape`))
+            this.focus = null;
+
+        this.lastBounds = this.bounds;
+        this.mouseButtonLast = this.canvas.mouseButton;
+        this.layout = null;
+    }
+
+    // Starts a column of widgets. x is where the controls start, and y is the middle of the first row.
+    public beginColumn(x: number, y: number, rowHeight = this.canvas.getSize(uiStyle.rowHeight)): void {
+        this.layout = { x, y, rowHeight };
+    }
+
+    public endColumn(): void {
+        this.layout = null;
+    }
+
+    // Leaves an empty row.
+    public space(rows = 1): void {
+        this.nextRow(rows);
+    }
+
+    private nextRow(rows = 1): ColumnLayout {
+        if (this.layout === null)
+            throw new Error(`UI widgets need a column; call beginColumn first`);
+
+        const row = { ... this.layout };
+        this.layout.y += this.layout.rowHeight * rows;
+        return row;
+    }
+
+    private isShiftDown(): boolean {
+        return this.canvas.isKeyDown('ShiftLeft') || this.canvas.isKeyDown('ShiftRight');
+    }
+
+    // Keyboard steps are coarse with Shift, and fine with Alt.
+    private keyStepScale(): number {
+        if (this.isShiftDown())
+            return 10;
+        if (this.canvas.isKeyDown('AltLeft') || this.canvas.isKeyDown('AltRight'))
+            return 0.1;
+        return 1;
+    }
+
+    private isKeyTriggered(id: string, code: string): boolean {
+        return this.ctx.interactive && this.focus === id && this.canvas.isKeyDownEventTriggered(code);
+    }
+
+    private isMouseInRect(x: number, y: number, w: number, h: number): boolean {
+        const mouse = this.canvas.mouse;
+        return mouse[0] >= x && mouse[0] <= x + w && mouse[1] >= y && mouse[1] <= y + h;
+    }
+
+    private register(id: string): void {
+        if (this.widgetIds.includes(id))
+            throw new Error(`UI widget ${id} was drawn twice in one frame; give one of them an id`);
+        this.widgetIds.push(id);
+    }
+
+    // Puts something that the scene draws and handles itself, like a handle that can be dragged, in the
+    // tab order. Returns whether it has the keyboard focus.
+    public focusable(id: string): boolean {
+        if (!this.ctx.interactive)
+            return false;
+
+        this.register(id);
+        return this.focus === id;
+    }
+
+    // The arrow keys pressed this frame while the given id has the focus, with x to the right and y up.
+    // Each press counts as one step, or 10 with Shift, or 0.1 with Alt.
+    public arrowKeys(id: string): vec2 {
+        const v = vec2.create();
+        if (this.isKeyTriggered(id, `ArrowLeft`))
+            v[0] -= 1;
+        if (this.isKeyTriggered(id, `ArrowRight`))
+            v[0] += 1;
+        if (this.isKeyTriggered(id, `ArrowDown`))
+            v[1] -= 1;
+        if (this.isKeyTriggered(id, `ArrowUp`))
+            v[1] += 1;
+
+        if (v[0] !== 0 || v[1] !== 0)
+            this.committed = true;
+        return vec2.scale(v, v, this.keyStepScale());
+    }
+
+    // Registers the widget for this frame, and handles the mouse grabbing and releasing it. hit is whether
+    // the mouse is over the part of it that takes clicks, and bounds is all of it.
+    // Returns true on the frame the mouse is released over a widget it was pressed on.
+    private interact(id: string, hit: boolean, bounds: Rect): boolean {
+        if (!this.ctx.interactive)
+            return false;
+
+        this.bounds.push(bounds);
+        this.register(id);
+
+        if (hit && (this.active === null || this.active === id))
+            this.hot = id;
+
+        if (this.active === id) {
+            if (!this.canvas.mouseButton) {
+                this.active = null;
+                return hit;
+            }
+        } else if (this.active === null && this.hot === id && this.mousePressed) {
+            this.active = id;
+            this.focus = id;
+        }
+
+        return false;
+    }
+
+    private drawLabel(id: string, label: string, row: ColumnLayout): void {
+        const color = this.active === id || this.focus === id ? uiStyle.labelActiveColor : uiStyle.labelColor;
+        this.canvas.drawText(label, row.x - this.canvas.getSize(uiStyle.labelGap), row.y, color, uiStyle.textSize, 'right', 'middle');
+    }
+
+    private drawFocusRect(id: string, x: number, y: number, w: number, h: number): void {
+        if (this.ctx.interactive && this.focus === id) {
+            const pad = this.canvas.getSize(4);
+            this.canvas.strokeRect(x - pad, y - pad, w + pad * 2, h + pad * 2, uiStyle.focusColor, 2);
+        }
+    }
+
+    public slider(label: string, value: number, options: SliderOptions): number {
+        const id = options.id ?? label;
+        const { min, max } = options;
+        const step = options.step ?? (max - min) / 100;
+        const format = options.format ?? ((v: number) => v.toFixed(2));
+        const canvas = this.canvas;
+        const row = this.nextRow();
+
+        const trackMinX = row.x;
+        const trackMaxX = row.x + canvas.getSize(uiStyle.sliderWidth);
+        const trackY = row.y;
+        const handlePos = vec2.fromValues(lerp(trackMinX, trackMaxX, invlerp(min, max, value)), trackY);
+
+        const hotSize = canvas.getSize(uiStyle.handleHotSize);
+        const bounds = { x: trackMinX - hotSize, y: trackY - hotSize, w: trackMaxX - trackMinX + hotSize * 2, h: hotSize * 2 };
+        this.interact(id, vec2.distance(canvas.mouse, handlePos) <= hotSize, bounds);
+
+        if (this.active === id)
+            value = lerp(min, max, saturate(invlerp(trackMinX, trackMaxX, canvas.mouse[0])));
+
+        const keyStep = step * this.keyStepScale();
+        let keyValue = value;
+        if (this.isKeyTriggered(id, `ArrowLeft`) || this.isKeyTriggered(id, `ArrowDown`))
+            keyValue -= keyStep;
+        if (this.isKeyTriggered(id, `ArrowRight`) || this.isKeyTriggered(id, `ArrowUp`))
+            keyValue += keyStep;
+        if (this.isKeyTriggered(id, `Home`))
+            keyValue = min;
+        if (this.isKeyTriggered(id, `End`))
+            keyValue = max;
+        if (keyValue !== value) {
+            value = clamp(keyValue, min, max);
+            this.committed = true;
+        }
+
+        handlePos[0] = lerp(trackMinX, trackMaxX, invlerp(min, max, value));
+
+        const engaged = this.active === id || this.hot === id || (this.ctx.interactive && this.focus === id);
+        canvas.drawLine(vec2.fromValues(trackMinX, trackY), vec2.fromValues(trackMaxX, trackY), uiStyle.trackColor, uiStyle.trackWidth);
+        if (this.ctx.interactive && this.focus === id)
+            canvas.drawPoint(handlePos, uiStyle.focusColor, uiStyle.handleHotSize + 8);
+        canvas.drawPoint(handlePos, this.active === id ? uiStyle.handleActiveColor : uiStyle.handleColor, engaged ? uiStyle.handleHotSize : uiStyle.handleSize);
+
+        if (engaged) {
+            const w = canvas.getSize(80), h = canvas.getSize(40);
+            canvas.fillRect(handlePos[0] - w / 2, handlePos[1] - canvas.getSize(60), w, h, uiStyle.backgroundColor);
+            canvas.drawText(format(value), handlePos[0], handlePos[1] - canvas.getSize(28), uiStyle.valueColor, uiStyle.textSize, 'center');
+        }
+
+        this.drawLabel(id, label, row);
+        return value;
+    }
+
+    public toggle(label: string, value: boolean, options: WidgetOptions = {}): boolean {
+        const id = options.id ?? label;
+        const canvas = this.canvas;
+        const row = this.nextRow();
+
+        const size = canvas.getSize(uiStyle.boxSize);
+        const x = row.x, y = row.y - size / 2;
+        const clicked = this.interact(id, this.isMouseInRect(x, y, size, size), { x, y, w: size, h: size });
+
+        if (clicked || this.isKeyTriggered(id, `Space`) || this.isKeyTriggered(id, `Enter`)) {
+            value = !value;
+            this.committed = true;
+        }
+
+        if (this.hot === id)
+            canvas.fillRect(x, y, size, size, this.active === id ? uiStyle.buttonActiveColor : uiStyle.buttonHotColor);
+        canvas.strokeRect(x, y, size, size, uiStyle.boxColor, 2);
+        if (value) {
+            const inset = canvas.getSize(5);
+            canvas.fillRect(x + inset, y + inset, size - inset * 2, size - inset * 2, uiStyle.handleActiveColor);
+        }
+        this.drawFocusRect(id, x, y, size, size);
+
+        this.drawLabel(id, label, row);
+        return value;
+    }
+
+    // A row of mutually exclusive options.
+    public radio<T>(label: string, value: T, options: readonly RadioOption<T>[], widgetOptions: WidgetOptions = {}): T {
+        const id = widgetOptions.id ?? label;
+        const canvas = this.canvas;
+        const row = this.nextRow();
+
+        const radius = canvas.getSize(uiStyle.boxSize / 2);
+        const gap = canvas.getSize(uiStyle.labelGap);
+        const bounds = options.map((option) => ({ x: 0, w: radius * 2 + canvas.getSize(8) + canvas.measureText(option.label, uiStyle.textSize) }));
+        let cursorX = row.x;
+        for (const b of bounds) {
+            b.x = cursorX;
+            cursorX += b.w + gap;
+        }
+
+        const y = row.y - radius;
+        const hoverIndex = bounds.findIndex((b) => this.isMouseInRect(b.x, y, b.w, radius * 2));
+        const clicked = this.interact(id, hoverIndex >= 0, { x: row.x, y, w: cursorX - gap - row.x, h: radius * 2 });
+        if (clicked && options[hoverIndex].value !== value) {
+            value = options[hoverIndex].value;
+            this.committed = true;
+        }
+
+        const index = options.findIndex((option) => option.value === value);
+        let keyIndex = index;
+        if (this.isKeyTriggered(id, `ArrowLeft`) || this.isKeyTriggered(id, `ArrowUp`))
+            keyIndex = Math.max(index - 1, 0);
+        if (this.isKeyTriggered(id, `ArrowRight`) || this.isKeyTriggered(id, `ArrowDown`))
+            keyIndex = Math.min(index + 1, options.length - 1);
+        if (keyIndex !== index && keyIndex >= 0) {
+            value = options[keyIndex].value;
+            this.committed = true;
+        }
+
+        options.forEach((option, i) => {
+            const b = bounds[i];
+            const center = vec2.fromValues(b.x + radius, row.y);
+            const selected = option.value === value;
+            if (this.hot === id && hoverIndex === i)
+                canvas.drawPoint(center, uiStyle.buttonActiveColor, uiStyle.boxSize);
+            canvas.drawCircle(center, radius * 2, uiStyle.boxColor, 2);
+            if (selected)
+                canvas.drawPoint(center, uiStyle.handleActiveColor, uiStyle.boxSize / 2);
+            canvas.drawText(option.label, b.x + radius * 2 + canvas.getSize(8), row.y, selected ? uiStyle.labelActiveColor : uiStyle.labelColor, uiStyle.textSize, 'left', 'middle');
+        });
+        this.drawFocusRect(id, row.x, y, cursorX - gap - row.x, radius * 2);
+
+        this.drawLabel(id, label, row);
+        return value;
+    }
+
+    // A number with - and + buttons either side of it.
+    public stepper(label: string, value: number, options: StepperOptions): number {
+        const id = options.id ?? label;
+        const { step } = options;
+        const min = options.min ?? -Infinity, max = options.max ?? Infinity;
+        const format = options.format ?? ((v: number) => `${v}`);
+        const canvas = this.canvas;
+        const row = this.nextRow();
+
+        const size = canvas.getSize(uiStyle.boxSize);
+        const valueWidth = canvas.getSize(80);
+        const y = row.y - size / 2;
+        const minusX = row.x, plusX = row.x + size + valueWidth;
+        const overMinus = this.isMouseInRect(minusX, y, size, size);
+        const overPlus = this.isMouseInRect(plusX, y, size, size);
+
+        const clicked = this.interact(id, overMinus || overPlus, { x: minusX, y, w: plusX + size - minusX, h: size });
+        let delta = 0;
+        if (clicked)
+            delta = overPlus ? 1 : -1;
+        if (this.isKeyTriggered(id, `ArrowLeft`) || this.isKeyTriggered(id, `ArrowDown`))
+            delta = -1;
+        if (this.isKeyTriggered(id, `ArrowRight`) || this.isKeyTriggered(id, `ArrowUp`))
+            delta = 1;
+        if (delta !== 0) {
+            const newValue = clamp(value + delta * (this.isShiftDown() ? step * 10 : step), min, max);
+            if (newValue !== value) {
+                value = newValue;
+                this.committed = true;
+            }
+        }
+
+        const drawButton = (x: number, text: string, over: boolean) => {
+            if (this.hot === id && over)
+                canvas.fillRect(x, y, size, size, this.active === id ? uiStyle.buttonActiveColor : uiStyle.buttonHotColor);
+            canvas.strokeRect(x, y, size, size, uiStyle.boxColor, 2);
+            canvas.drawText(text, x + size / 2, row.y, uiStyle.valueColor, uiStyle.textSize, 'center', 'middle');
+        };
+        drawButton(minusX, '-', overMinus);
+        drawButton(plusX, '+', overPlus);
+        canvas.drawText(format(value), minusX + size + valueWidth / 2, row.y, uiStyle.valueColor, uiStyle.textSize, 'center', 'middle');
+        this.drawFocusRect(id, minusX, y, plusX + size - minusX, size);
+
+        this.drawLabel(id, label, row);
+        return value;
+    }
+
+    // Returns true when the button is clicked, or pressed with Space or Enter while focused.
+    public button(label: string, options: WidgetOptions = {}): boolean {
+        const id = options.id ?? label;
+        const canvas = this.canvas;
+        const row = this.nextRow();
+
+        const pad = canvas.getSize(uiStyle.buttonPadding);
+        const w = canvas.measureText(label, uiStyle.textSize) + pad * 2;
+        const h = canvas.getSize(uiStyle.boxSize) + pad;
+        const x = row.x, y = row.y - h / 2;
+
+        let pressed = this.interact(id, this.isMouseInRect(x, y, w, h), { x, y, w, h });
+        if (this.isKeyTriggered(id, `Space`) || this.isKeyTriggered(id, `Enter`))
+            pressed = true;
+
+        if (this.hot === id)
+            canvas.fillRect(x, y, w, h, this.active === id ? uiStyle.buttonActiveColor : uiStyle.buttonHotColor);
+        canvas.strokeRect(x, y, w, h, uiStyle.boxColor, 2);
+        canvas.drawText(label, x + w / 2, row.y, this.active === id ? uiStyle.labelActiveColor : uiStyle.valueColor, uiStyle.textSize, 'center', 'middle');
+        this.drawFocusRect(id, x, y, w, h);
+
+        return pressed;
+    }
+
+    // A read-only value with a label. It takes no input, so it is skipped by the tab order.
+    public readout(label: string, text: string): void {
+        const row = this.nextRow();
+        this.canvas.drawText(label, row.x - this.canvas.getSize(uiStyle.labelGap), row.y, uiStyle.labelColor, uiStyle.textSize, 'right', 'middle');
+        this.canvas.drawText(text, row.x, row.y, uiStyle.valueColor, uiStyle.textSize, 'left', 'middle');
+    }
+}
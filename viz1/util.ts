@@ -0,0 +1,84 @@
+
+import { ReadonlyVec2, ReadonlyVec4, vec2, vec3, vec4 } from 'gl-matrix';
+
+export const TAU = Math.PI * 2;
+
+export function lineRayIntersect(a0: ReadonlyVec2, a1: ReadonlyVec2, b0: ReadonlyVec2, b1: ReadonlyVec2) {
+    const a = vec2.sub(vec2.create(), a1, a0);
+    const b = vec2.sub(vec2.create(), b1, b0);
+
+    function cross(a: ReadonlyVec2, b: ReadonlyVec2) {
+        return a[0] * b[1] - b[0] * a[1];
+    }
+
+    const c = vec2.sub(vec2.create(), b0, a0);
+    const denom = cross(a, b);
+
+    if (Math.abs(denom) < 0.01)
+        return -1; // colinear / parallel
+
+    const at = cross(c, a) / denom;
+    const bt = cross(c, b) / denom;
+    if (at < 0 || bt < -0.01 || bt > 1.01)
+        return -1;
+
+    return at;
+}
+
+export function perpL(v: ReadonlyVec2): vec2 {
+    return vec2.fromValues(-v[1], v[0]);
+}
+
+export function lerp(a: number, b: number, t: number): number {
+    return (b - a) * t + a;
+}
+
+export function invlerp(a: number, b: number, v: number): number {
+    return (v - a) / (b - a);
+}
+
+export function clamp(x: number, min: number, max: number): number {
+    return Math.min(max, Math.max(min, x));
+}
+
+export function saturate(x: number) {
+    return clamp(x, 0.0, 1.0);
+}
+
+export function lineDistance(a0: ReadonlyVec2, a1: ReadonlyVec2, p: ReadonlyVec2) {
+    const a = vec2.sub(vec2.create(), a1, a0);
+    const p0 = vec2.sub(vec2.create(), p, a0);
+    const t = saturate(vec2.dot(a, p0) / vec2.squaredLength(a));
+    vec2.scale(a, a, t);
+    return vec2.distance(p0, a);
+}
+
+export function computeUnitSphereCoords(azimuthal: number, polar: number): vec3 {
+    const sinP = Math.sin(polar);
+    return vec3.fromValues(
+        sinP * Math.cos(azimuthal),
+        Math.cos(polar),
+        sinP * Math.sin(azimuthal),
+    );
+}
+
+// Clips the line going from A to B to the given plane. Returns false if the line is fully clipped away.
+export function clipToPlane(clipPositionA: vec4, clipPositionB: vec4, planeNormal: ReadonlyVec4): boolean {
+    const dotA = vec4.dot(clipPositionA, planeNormal);
+    const dotB = vec4.dot(clipPositionB, planeNormal);
+
+    if (dotA < 0.0 && dotB < 0.0) {
+        // Both are behind the plane. Don't draw it.
+        return false;
+    }
+
+    const t = dotA / (dotA - dotB);
+    if (dotA < 0.0) {
+        vec4.lerp(clipPositionA, clipPositionA, clipPositionB, t);
+    } else if (dotB < 0.0) {
+        vec4.lerp(clipPositionB, clipPositionA, clipPositionB, t);
+    }
+
+    return true;
+}
+
@@ -0,0 +1,30 @@
+
+import { ReadonlyVec2, vec2, vec4 } from 'gl-matrix';
+import { Canvas } from './canvas';
+
+// The 2D demos live in a square world from -1 to 1 on each axis, centered in the canvas.
+export class View2D {
+    public viewport = vec4.create();
+
+    public beginFrame(canvas: Canvas): void {
+        const r = Math.min(canvas.width, canvas.height);
+        const rx = Math.max((canvas.width - r) / 2, 0);
+        const ry = Math.max((canvas.height - r) / 2, 0);
+        this.viewport[0] = r;
+        this.viewport[1] = r;
+        this.viewport[2] = rx;
+        this.viewport[3] = ry;
+    }
+
+    public transformWorldToCanvas(v: ReadonlyVec2): vec2 {
+        const x = (v[0] * 0.5 + 0.5) * this.viewport[0] + this.viewport[2];
+        const y = (-v[1] * 0.5 + 0.5) * this.viewport[1] + this.viewport[3];
+        return vec2.fromValues(x, y);
+    }
+
+    public transformCanvasToWorld(v: ReadonlyVec2): vec2 {
+        const x = ((v[0] - this.viewport[2]) / this.viewport[0]) * 2 - 1;
+        const y = -(((v[1] - this.viewport[3]) / this.viewport[1]) * 2 - 1);
+        return vec2.fromValues(x, y);
+    }
+}
@@ -0,0 +1,276 @@
+
+import { ReadonlyMat4, ReadonlyVec2, ReadonlyVec3, ReadonlyVec4, mat4, vec3, vec4 } from 'gl-matrix';
+import { Canvas } from './canvas';
+import { ClipPlane, clipLine, clipPolygon, createClipPlanes, frustumClipPlanes, isInsideClipPlanes, nearClipPlane } from './clip';
+import { Mesh } from './mesh';
+import { Rasterizer } from './raster';
+import { TAU, computeUnitSphereCoords } from './util';
+
+// Solid meshes are lit by a directional light from above, plus a little ambient light so that the faces
+// turned away from it don't go black.
+const solidLightDirection = vec3.normalize(vec3.create(), vec3.fromValues(0.5, 1, 0.25));
+const solidAmbient = 0.35;
+
+function computeSolidColor(out: vec4, normal: ReadonlyVec3, color: ReadonlyVec4): vec4 {
+    const diffuse = Math.max(vec3.dot(normal, solidLightDirection), 0);
+    const light = solidAmbient + (1 - solidAmbient) * diffuse;
+    return vec4.set(out, color[0] * light, color[1] * light, color[2] * light, color[3]);
+}
+
+// With clipDebug on, the sides of the view volume are pulled in to this fraction of the screen.
+const debugClipPlanes = createClipPlanes(0.8);
+const clipGhostColor = 'rgba(0, 0, 0, 0.12)';
+
+// An orbit camera looking at a target, the origin unless it's moved, and the helpers to draw through it.
+export class View3D {
+    public viewFromWorld3D = mat4.create();
+    public clipFromView3D = mat4.create();
+    public clipFromWorld3D = mat4.create();
+    // Where the camera is, in world space.
+    public eye = vec3.create();
+
+    // Solid geometry is rasterized in software, between beginSolid and endSolid, so that it's depth tested
+    // against itself rather than drawn in whatever order it comes in.
+    public raster = new Rasterizer(1, 1);
+
+    // Draws the edges of the screen pulled in, and the parts of everything that are clipped away by them
+    // ghosted, to see the clipping at work.
+    public clipDebug = false;
+
+    private canvas!: Canvas;
+    private clipPlanes: readonly ClipPlane[] = frustumClipPlanes;
+
+    public beginFrame(canvas: Canvas, cameraLatitude: number, cameraLongitude: number, cameraDistance: number, cameraTarget: ReadonlyVec3 = [0, 0, 0]): void {
+        this.canvas = canvas;
+
+        // Set our default projection matrix.
+        mat4.perspective(this.clipFromView3D, TAU / 4.5, this.canvas.width / this.canvas.height, 0.1, Infinity);
+
+        // Set our view matrix (we look at the target from a given point in space, known as the 'eye').
+
+        // We generate the eye using langitude / longitude coordinates, which we can control with the mouse x/y.
+        const eye = computeUnitSphereCoords(cameraLatitude, cameraLongitude);
+        // This is the distance away from the target we are.
+        vec3.scaleAndAdd(eye, cameraTarget, eye, cameraDistance);
+        vec3.copy(this.eye, eye);
+
+        const up = vec3.fromValues(0, 1, 0);
+
+        mat4.lookAt(this.viewFromWorld3D, eye, cameraTarget, up);
+        mat4.mul(this.clipFromWorld3D, this.clipFromView3D, this.viewFromWorld3D);
+
+        this.clipPlanes = this.clipDebug ? debugClipPlanes : frustumClipPlanes;
+        this.raster.clipPlanes = this.clipPlanes;
+        if (this.clipDebug) {
+            const w = this.canvas.width, h = this.canvas.height, inset = (1 - debugClipPlanes[1].normal[3]) / 2;
+            this.canvas.strokeRect(w * inset, h * inset, w * (1 - inset * 2), h * (1 - inset * 2), clipGhostColor, 2);
+        }
+    }
+
+    // Replaces the projection set up by beginFrame, e.g. with one that's been edited by hand.
+    public setClipFromView3D(clipFromView: ReadonlyMat4): void {
+        mat4.copy(this.clipFromView3D, clipFromView);
+        mat4.mul(this.clipFromWorld3D, this.clipFromView3D, this.viewFromWorld3D);
+    }
+
+    public drawPoint3D(worldPosition: ReadonlyVec3, color = 'black', size = 8): void {
+        const clipPosition = this.transformWorld3DToClip(worldPosition);
+
+        if (!isInsideClipPlanes(clipPosition, this.clipPlanes)) {
+            // Anything behind the near plane can't be drawn at all, not even ghosted.
+            if (this.clipDebug && isInsideClipPlanes(clipPosition, [nearClipPlane]))
+                this.canvas.drawPoint(this.transformClipToCanvas(clipPosition) as ReadonlyVec2, clipGhostColor, size);
+            return;
+        }
+
+        const canvasPosition = this.transformClipToCanvas(clipPosition);
+        this.canvas.drawPoint(canvasPosition as ReadonlyVec2, color, size);
+    }
+
+    public drawLine3D(worldPositionA: ReadonlyVec3, worldPositionB: ReadonlyVec3, color = 'black', lineWidth = 2): void {
+        const clipPositionA = this.transformWorld3DToClip(worldPositionA);
+        const clipPositionB = this.transformWorld3DToClip(worldPositionB);
+
+        if (this.clipDebug) {
+            const ghost = clipLine(clipPositionA, clipPositionB, [nearClipPlane]);
+            if (ghost !== null)
+                this.canvas.drawLine(this.transformClipToCanvas(ghost[0]) as ReadonlyVec2, this.transformClipToCanvas(ghost[1]) as ReadonlyVec2, clipGhostColor, lineWidth);
+        }
+
+        const line = clipLine(clipPositionA, clipPositionB, this.clipPlanes);
+        if (line === null)
+            return;
+
+        const canvasPositionA = this.transformClipToCanvas(line[0]);
+        const canvasPositionB = this.transformClipToCanvas(line[1]);
+        this.canvas.drawLine(canvasPositionA as ReadonlyVec2, canvasPositionB as ReadonlyVec2, color, lineWidth);
+    }
+
+    // A flat polygon, drawn without depth testing: it goes over whatever was drawn before it.
+    public drawPolygonFill3D(worldPositions: readonly ReadonlyVec3[], color: string): void {
+        const clipPositions = worldPositions.map((v) => this.transformWorld3DToClip(v));
+
+        if (this.clipDebug) {
+            const ghost = clipPolygon(clipPositions, [nearClipPlane]);
+            if (ghost.length > 0)
+                this.canvas.drawPolygon(ghost.map((v) => this.transformClipToCanvas(v)) as ReadonlyVec2[], clipGhostColor);
+        }
+
+        const polygon = clipPolygon(clipPositions, this.clipPlanes);
+        if (polygon.length === 0)
+            return;
+
+        this.canvas.drawPolygon(polygon.map((v) => this.transformClipToCanvas(v)) as ReadonlyVec2[], color);
+    }
+
+    public drawQuadFill3D(worldPositionA: ReadonlyVec3, worldPositionB: ReadonlyVec3, worldPositionC: ReadonlyVec3, worldPositionD: ReadonlyVec3, color: string): void {
+        this.drawPolygonFill3D([worldPositionA, worldPositionB, worldPositionC, worldPositionD], color);
+    }
+
+    public beginSolid(): void {
+        // One pixel per CSS pixel is plenty, and keeps the work per frame down on high DPI screens.
+        const scale = 1 / Math.max(this.canvas.pixelRatio, 1);
+        this.raster.resize(Math.max(Math.ceil(this.canvas.width * scale), 1), Math.max(Math.ceil(this.canvas.height * scale), 1));
+        this.raster.clear();
+    }
+
+    // Draws the solid geometry over everything drawn so far. The image covers the whole canvas, so it's
+    // left out when nothing solid was drawn, rather than ending up in exported figures for nothing.
+    public endSolid(): void {
+        if (this.raster.stats.fragments === 0)
+            return;
+
+        this.canvas.backend.pushGroup('solid');
+        this.canvas.drawImage(this.raster, 0, 0, this.canvas.width, this.canvas.height);
+        this.canvas.backend.popGroup();
+    }
+
+    // The point on the nearest solid surface drawn at the canvas position since beginSolid, read back from
+    // the depth buffer, or null if there's nothing solid there.
+    public pickSolid3D(canvasPosition: ReadonlyVec2): vec3 | null {
+        const raster = this.raster;
+        const x = Math.floor(canvasPosition[0] / this.canvas.width * raster.width);
+        const y = Math.floor(canvasPosition[1] / this.canvas.height * raster.height);
+        if (x < 0 || x >= raster.width || y < 0 || y >= raster.height)
+            return null;
+
+        // The buffer is cleared to the far plane, and keeps depth from 0 to 1 rather than -1 to 1.
+        const depth = raster.depth[y * raster.width + x];
+        if (depth >= 1)
+            return null;
+        return this.transformCanvasToWorld3D(canvasPosition, depth * 2 - 1);
+    }
+
+    // The color is RGBA from 0 to 1. The mesh's vertices can be moved around with transform first,
+    // while it keeps its normals for the lighting.
+    public drawMeshSolid3D(mesh: Mesh, color: ReadonlyVec4, transform: (worldPosition: ReadonlyVec3) => ReadonlyVec3 = (v) => v): void {
+        this.raster.drawIndexed(mesh.positions.length, mesh.indices, (i) => ({
+            clip: this.transformWorld3DToClip(transform(mesh.positions[i])),
+            varyings: mesh.normals[i],
+        }), (varyings, out) => {
+            const normal = vec3.normalize(vec3.create(), varyings);
+            computeSolidColor(out, normal, color);
+        });
+    }
+
+    // A box lit like the solid meshes, but drawn as vector polygons, without depth testing. Only the faces
+    // turned towards the camera are drawn, which never overlap, so a box on its own always looks right.
+    public drawBoxFill3D(center: ReadonlyVec3, size: ReadonlyVec3, color: ReadonlyVec4): void {
+        for (let axis = 0; axis < 3; axis++) {
+            for (const side of [-1, 1]) {
+                const normal = vec3.create();
+                normal[axis] = side;
+                const faceCenter = vec3.scaleAndAdd(vec3.create(), center, normal, size[axis] / 2);
+                if (vec3.dot(vec3.sub(vec3.create(), this.eye, faceCenter), normal) <= 0)
+                    continue;
+
+                const u = (axis + 1) % 3, v = (axis + 2) % 3;
+                const corners = [[-1, -1], [1, -1], [1, 1], [-1, 1]].map(([i, j]) => {
+                    const p = vec3.clone(faceCenter);
+                    p[u] += i * size[u] / 2;
+                    p[v] += j * size[v] / 2;
+                    return p;
+                });
+                const c = computeSolidColor(vec4.create(), normal, color);
+                this.drawPolygonFill3D(corners, `rgba(${Math.round(c[0] * 255)}, ${Math.round(c[1] * 255)}, ${Math.round(c[2] * 255)}, ${c[3]})`);
+            }
+        }
+    }
+
+    // An unlit quad, e.g. a translucent one showing a plane.
+    public drawQuadSolid3D(worldPositionA: ReadonlyVec3, worldPositionB: ReadonlyVec3, worldPositionC: ReadonlyVec3, worldPositionD: ReadonlyVec3, color: ReadonlyVec4): void {
+        const vertices = [worldPositionA, worldPositionB, worldPositionC, worldPositionD].map((v) => ({ clip: this.transformWorld3DToClip(v), varyings: [] }));
+        const shader = (_: Float32Array, out: vec4) => { vec4.copy(out, color); };
+        this.raster.drawTriangle(vertices[0], vertices[1], vertices[2], shader);
+        this.raster.drawTriangle(vertices[0], vertices[2], vertices[3], shader);
+    }
+
+    public drawGridPlane3D(worldPositionCenter: ReadonlyVec3, basisX: ReadonlyVec3, basisY: ReadonlyVec3, gridSize: number, cellCount: number, color: string = 'black', lineWidth: number = 4): void {
+        const halfGridSize = gridSize * 0.5;
+
+        this.canvas.backend.pushGroup('grid');
+
+        // Do lines along the X basis first ("horizontal").
+        for (let i = 0; i <= cellCount; i++) {
+            const t = (i / cellCount) * 2.0 - 1.0;
+
+            // Compute the left and right points of the "horizontal" line.
+            const worldPositionA = vec3.scaleAndAdd(vec3.create(), worldPositionCenter, basisX, -halfGridSize);
+            vec3.scaleAndAdd(worldPositionA, worldPositionA, basisY, t * halfGridSize);
+
+            const worldPositionB = vec3.scaleAndAdd(vec3.create(), worldPositionCenter, basisX, halfGridSize);
+            vec3.scaleAndAdd(worldPositionB, worldPositionB, basisY, t * halfGridSize);
+
+            this.drawLine3D(worldPositionA, worldPositionB, color, lineWidth);
+        }
+
+        // Do lines along the Y basis now ("vertical").
+        for (let i = 0; i <= cellCount; i++) {
+            const t = (i / cellCount) * 2.0 - 1.0;
+
+            // Compute the top and bottom points of the "vertical" line.
+            const worldPositionA = vec3.scaleAndAdd(vec3.create(), worldPositionCenter, basisY, -halfGridSize);
+            vec3.scaleAndAdd(worldPositionA, worldPositionA, basisX, t * halfGridSize);
+
+            const worldPositionB = vec3.scaleAndAdd(vec3.create(), worldPositionCenter, basisY, halfGridSize);
+            vec3.scaleAndAdd(worldPositionB, worldPositionB, basisX, t * halfGridSize);
+
+            this.drawLine3D(worldPositionA, worldPositionB, color, lineWidth);
+        }
+
+        this.canvas.backend.popGroup();
+    }
+
+    public transformWorld3DToClip(v: ReadonlyVec3): vec4 {
+        const clipPosition = vec4.fromValues(v[0], v[1], v[2], 1.0);
+        vec4.transformMat4(clipPosition, clipPosition, this.clipFromWorld3D);
+        return clipPosition;
+    }
+
+    // The inverse of transformClipToCanvas followed by transformWorld3DToClip, given the depth after the
+    // divide by w, from -1 at the near plane to 1 at the far plane.
+    public transformCanvasToWorld3D(canvasPosition: ReadonlyVec2, clipZ: number): vec3 {
+        const clipX = canvasPosition[0] / this.canvas.width * 2 - 1;
+        const clipY = 1 - canvasPosition[1] / this.canvas.height * 2;
+        const worldFromClip3D = mat4.invert(mat4.create(), this.clipFromWorld3D)!;
+        const v = vec4.transformMat4(vec4.create(), vec4.fromValues(clipX, clipY, clipZ, 1), worldFromClip3D);
+        return vec3.fromValues(v[0] / v[3], v[1] / v[3], v[2] / v[3]);
+    }
+
+    public transformClipToCanvas(clipSpace: ReadonlyVec4): vec3 {
+        const clipW = clipSpace[3];
+        const clipX = clipSpace[0] / clipW;
+        const clipY = clipSpace[1] / clipW;
+        const clipZ = clipSpace[2] / clipW;
+
+        // Go from -1...1 to 0...size
+        const canvasX = (clipX + 1) * this.canvas.width / 2;
+        const canvasY = (clipY + 1) * this.canvas.height / 2;
+
+        // Note: in our clip space, +Y is up, while in a 2D canvas, +Y is down. For this reason,
+        // we have to flip everything up-side down.
+        const canvasYFlipped = this.canvas.height - canvasY;
+
+        return vec3.fromValues(canvasX, canvasYFlipped, clipZ);
+    }
+}
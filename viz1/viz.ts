@@ -0,0 +1,623 @@
+
+import { Canvas } from './canvas';
+import { DemoContext, findDemo, getDemos } from './demo';
+import { downloadBlob, getExportPixelRatio, renderPNG, renderSVG } from './export';
+import { HandleRegistry } from './handles';
+import { StateHistory } from './history';
+import { InputPlayer, InputRecorder, InputRecording, parseInputRecording } from './recording';
+import { Presentation, PresentationScript, fetchPresentationScript, parsePresentationScript } from './presentation';
+import { StateSchema, VizState, assignStateFields, cloneState, decodeStateHash, encodeStateHash, parseState, serializeState } from './state';
+import { Animator, TweenOptions, isTweenValue } from './tween';
+import { UI } from './ui';
+import { View2D } from './view2d';
+import { View3D } from './view3d';
+
+// How long a status message stays up, in milliseconds.
+const statusDuration = 5000;
+
+export class Viz implements DemoContext {
+    public canvas: Canvas;
+    public view2D = new View2D();
+    public view3D = new View3D();
+
+    public ui = new UI(this);
+    public handles = new HandleRegistry(this);
+    // False while drawing a frame for export, so that nothing reacts to the mouse.
+    public interactive = true;
+
+    private schema: StateSchema;
+    private stateDefault: VizState;
+    private state: VizState;
+    // What's in storage, so we only write it when something changed.
+    private savedStateString: string | null = null;
+    private presentation: Presentation | null = null;
+    private animator = new Animator();
+    private history = new StateHistory();
+    // The state from before the drag or slider gesture in progress, so the whole gesture can be undone at once.
+    private gestureStartState: VizState | null = null;
+    // The time of the current frame, in milliseconds.
+    public time = 0;
+    private recorder: InputRecorder | null = null;
+    private player: InputPlayer | null = null;
+    // The script that KeyT starts.
+    public defaultPresentationScript: PresentationScript | null = null;
+    // Called with a description of what's on screen when it changes, e.g. to fill an ARIA live region.
+    public announcer: ((text: string) => void) | null = null;
+    private announcements: string[] = [];
+    private lastAnnouncement = '';
+    // A message for the user, like a link that couldn't be loaded. It's timed from the first frame it's
+    // drawn on, since it can be shown before there are any frames.
+    private status: { text: string, shownTime: number | null } | null = null;
+    // See DemoContext.transient.
+    private transients = new Map<string, unknown>();
+
+    constructor(canvas: Canvas, private storage: Storage | null = null) {
+        this.canvas = canvas;
+
+        this.schema = this.createStateSchema();
+        this.stateDefault = this.schema.defaults;
+        this.state = cloneState(this.stateDefault);
+        this.loadState();
+        this.loadPresentation();
+    }
+
+    private createStateSchema(): StateSchema {
+        const demos = getDemos();
+        if (demos.length === 0)
+            throw new Error(`No demos are registered`);
+
+        const schema: StateSchema = {
+            defaults: { demo: demos[0].id },
+            rules: { demo: { values: () => getDemos().map((demo) => demo.id) } },
+        };
+        for (const demo of demos) {
+            Object.assign(schema.defaults, demo.stateDefault);
+            Object.assign(schema.rules, demo.stateRules);
+        }
+        return schema;
+    }
+
+    public get demo(): string {
+        return this.state.demo;
+    }
+
+    public listDemos(): { id: string, title: string }[] {
+        return getDemos().map(({ id, title }) => ({ id, title }));
+    }
+
+    public setDemo(id: string): void {
+        if (id === this.state.demo)
+            return;
+
+        if (findDemo(id) === undefined)
+            throw new Error(`Unknown demo ${id}`);
+
+        this.state.demo = id;
+        this.transients.clear();
+    }
+
+    private cycleDemo(delta: number): void {
+        const demos = getDemos();
+        const index = demos.findIndex((demo) => demo.id === this.state.demo);
+        const newIndex = (index + delta + demos.length) % demos.length;
+        this.setDemo(demos[newIndex].id);
+    }
+
+    // Draws one frame. time is in milliseconds, like requestAnimationFrame's timestamp. While a recording
+    // is being replayed, the recorded frame times are used instead.
+    public update(time: number): void {
+        if (this.player !== null)
+            time = this.player.beginFrame();
+        if (this.recorder !== null)
+            this.recorder.beginFrame(time);
+        this.canvas.beginFrame(time);
+
+        this.time = time;
+        this.animator.update(this.state, time);
+
+        this.canvas.clearScreen('#fff');
+
+        // Ctrl and Cmd shortcuts like Ctrl+1 and Ctrl+T belong to the browser, so the single-key
+        // shortcuts leave them alone.
+        const browserShortcut = this.isBrowserShortcutKeyDown();
+
+        // Demo switch
+        const demos = getDemos();
+        for (let i = 0; i < Math.min(demos.length, 9); i++)
+            if (this.canvas.isKeyDownEventTriggered(`Digit${i + 1}`) && !browserShortcut)
+                this.setDemo(demos[i].id);
+
+        if (this.canvas.isKeyDownEventTriggered(`BracketLeft`) && !browserShortcut)
+            this.cycleDemo(-1);
+        if (this.canvas.isKeyDownEventTriggered(`BracketRight`) && !browserShortcut)
+            this.cycleDemo(1);
+
+        if (this.canvas.isKeyDownEventTriggered(`KeyP`) && !browserShortcut)
+            this.resetStateToDefault();
+
+        // Ctrl+Z, or Cmd+Z on a Mac.
+        if (this.canvas.isKeyDownEventTriggered(`KeyZ`) && browserShortcut) {
+            if (this.canvas.isKeyDown('ShiftLeft') || this.canvas.isKeyDown('ShiftRight'))
+                this.redo();
+            else
+                this.undo();
+        }
+
+        if (this.canvas.isKeyDownEventTriggered(`KeyT`) && !browserShortcut) {
+            if (this.presentation !== null)
+                this.stopPresentation();
+            else if (this.defaultPresentationScript !== null)
+                this.startPresentation(this.defaultPresentationScript);
+        }
+
+        // While a widget has the keyboard focus, the arrow keys and Space go to it instead.
+        if (this.presentation !== null && this.ui.focus === null) {
+            if (this.canvas.isKeyDownEventTriggered(`ArrowRight`) || this.canvas.isKeyDownEventTriggered(`PageDown`) || this.canvas.isKeyDownEventTriggered(`Space`))
+                this.nextStep();
+            if (this.canvas.isKeyDownEventTriggered(`ArrowLeft`) || this.canvas.isKeyDownEventTriggered(`PageUp`))
+                this.prevStep();
+            if (this.canvas.isKeyDownEventTriggered(`Escape`))
+                this.stopPresentation();
+        }
+
+        if (this.canvas.isKeyDownEventTriggered(`KeyR`) && !browserShortcut && this.player === null) {
+            if (this.recorder !== null)
+                this.saveRecording();
+            else
+                this.startRecording();
+        }
+
+        if (this.canvas.isKeyDownEventTriggered(`KeyL`) && !browserShortcut)
+            this.copyShareLink();
+
+        // Shows what the 3D view's clipping cuts away.
+        if (this.canvas.isKeyDownEventTriggered(`KeyC`) && !browserShortcut)
+            this.view3D.clipDebug = !this.view3D.clipDebug;
+
+        if (this.canvas.isKeyDownEventTriggered(`KeyE`) && !browserShortcut) {
+            if (this.canvas.isKeyDown('ShiftLeft') || this.canvas.isKeyDown('ShiftRight'))
+                this.savePNG(3840, 2160).catch((e) => this.showStatus(`Could not export the PNG`, e));
+            else
+                this.saveSVG();
+        }
+
+        const gestureActive = this.isGestureActive();
+        const stateBeforeDemo = gestureActive ? null : cloneState(this.state);
+
+        this.ui.beginFrame();
+        this.handles.beginFrame();
+        this.announcements = [];
+        this.drawDemo();
+        this.ui.endFrame();
+        this.handles.endFrame();
+        this.canvas.setCursor(this.ui.active !== null || this.ui.hot !== null ? 'pointer' : this.handles.cursor);
+
+        if (!gestureActive && this.isGestureActive()) {
+            this.gestureStartState = this.handles.activeChangesView ? null : stateBeforeDemo;
+        } else if (gestureActive && !this.isGestureActive() && this.gestureStartState !== null) {
+            this.history.push(this.gestureStartState, this.state);
+            this.gestureStartState = null;
+        } else if (!gestureActive && this.ui.committed) {
+            // Clicks and key presses on widgets are undone one at a time.
+            this.history.push(stateBeforeDemo!, this.state);
+        }
+
+        // Grabbing something hands control back to the user.
+        if (this.isGestureActive())
+            this.animator.cancel();
+
+        this.canvas.endFrame();
+
+        this.updateAnnouncement();
+        this.saveState();
+
+        if (this.recorder !== null)
+            this.recorder.endFrame();
+
+        if (this.player !== null && this.player.done)
+            this.stopReplay();
+    }
+
+    public announce(text: string): void {
+        if (this.interactive)
+            this.announcements.push(text);
+    }
+
+    // Shows a message along the bottom of the canvas for a few seconds, and announces it. An error's
+    // message is added on to the end.
+    public showStatus(text: string, error?: unknown): void {
+        if (error !== undefined)
+            text += `: ${error instanceof Error ? error.message : String(error)}`;
+        this.status = { text, shownTime: null };
+    }
+
+    public transient<T>(key: string, create: () => T): T {
+        if (!this.transients.has(key))
+            this.transients.set(key, create());
+        return this.transients.get(key) as T;
+    }
+
+    // Values are announced once they settle, rather than on every frame of a drag or an animation.
+    private updateAnnouncement(): void {
+        if (this.announcer === null || this.isGestureActive() || this.animator.isAnimating())
+            return;
+
+        const focus = this.ui.focus !== null ? [`${this.ui.focus} focused`] : [];
+        const status = this.status !== null ? [this.status.text] : [];
+        const announcement = [... status, ... focus, ... this.announcements].join('. ');
+        if (announcement !== this.lastAnnouncement) {
+            this.announcer(announcement);
+            this.lastAnnouncement = announcement;
+        }
+    }
+
+    private isBrowserShortcutKeyDown(): boolean {
+        const canvas = this.canvas;
+        return canvas.isKeyDown('ControlLeft') || canvas.isKeyDown('ControlRight') || canvas.isKeyDown('MetaLeft') || canvas.isKeyDown('MetaRight');
+    }
+
+    private isGestureActive(): boolean {
+        return this.handles.active !== null || this.ui.active !== null;
+    }
+
+    private drawDemo(): void {
+        const demo = findDemo(this.state.demo)!;
+        demo.update(this, this.state);
+        if (demo.widgets !== undefined)
+            demo.widgets(this, this.state);
+
+        if (this.presentation !== null)
+            this.drawPresentationOverlay(this.presentation);
+
+        // Recording indicator and status message. Keep them out of exported frames.
+        if (this.recorder !== null && this.interactive)
+            this.canvas.drawPoint([this.canvas.getSize(30), this.canvas.getSize(30)], '#e33', 24);
+        if (this.interactive)
+            this.drawStatus();
+    }
+
+    private drawStatus(): void {
+        if (this.status === null)
+            return;
+
+        if (this.status.shownTime === null)
+            this.status.shownTime = this.time;
+        if (this.time - this.status.shownTime > statusDuration) {
+            this.status = null;
+            return;
+        }
+
+        const canvas = this.canvas;
+        const h = canvas.getSize(60);
+        canvas.fillRect(0, canvas.height - h, canvas.width, h, 'rgba(255, 255, 255, 0.85)');
+        canvas.drawText(this.status.text, canvas.width / 2, canvas.height - h / 2, '#c33', 20, 'center', 'middle');
+    }
+
+    private drawPresentationOverlay(presentation: Presentation): void {
+        const canvas = this.canvas;
+        const caption = presentation.step.caption;
+        if (caption !== undefined) {
+            canvas.fillRect(0, 0, canvas.width, canvas.getSize(90), 'rgba(255, 255, 255, 0.7)');
+            canvas.drawText(caption, canvas.width / 2, canvas.getSize(45), '#333', 28, 'center', 'middle');
+        }
+
+        const margin = canvas.getSize(20);
+        canvas.drawText(`${presentation.stepIndex + 1} / ${presentation.stepCount}`, canvas.width - margin, canvas.height - margin, '#999', 16, 'right', 'bottom');
+    }
+
+    public startPresentation(script: PresentationScript, stepIndex = 0): void {
+        this.presentation = new Presentation(this.checkPresentationScript(script), stepIndex);
+        this.applyStep();
+    }
+
+    // Checks the script's shape, then that every step names a demo and fields that exist.
+    private checkPresentationScript(json: unknown): PresentationScript {
+        const script = parsePresentationScript(json);
+
+        script.steps.forEach((step, i) => {
+            const problems = assignStateFields(this.schema, cloneState(this.stateDefault), { demo: step.demo, ... step.state });
+            if (problems.length > 0)
+                throw new Error(`Presentation step ${i + 1}: ${problems.join('; ')}`);
+        });
+
+        return script;
+    }
+
+    public async fetchPresentation(url: string, stepIndex = 0): Promise<void> {
+        this.startPresentation(await fetchPresentationScript(url), stepIndex);
+    }
+
+    public stopPresentation(): void {
+        this.presentation = null;
+        this.savePresentation();
+    }
+
+    public get presentationStep(): number | null {
+        return this.presentation !== null ? this.presentation.stepIndex : null;
+    }
+
+    public goToStep(stepIndex: number): void {
+        if (this.presentation !== null && this.presentation.goTo(stepIndex))
+            this.applyStep();
+    }
+
+    public nextStep(): void {
+        if (this.presentation !== null && this.presentation.next())
+            this.applyStep();
+    }
+
+    public prevStep(): void {
+        if (this.presentation !== null && this.presentation.prev())
+            this.applyStep();
+    }
+
+    // Each step's overrides build on the steps before it, starting from the defaults, so that a step
+    // looks the same whether we got to it going forwards or backwards.
+    private applyStep(): void {
+        const presentation = this.presentation!;
+        this.handles.cancel();
+        this.ui.active = null;
+
+        const target = cloneState(this.stateDefault);
+        for (let i = 0; i <= presentation.stepIndex; i++) {
+            const step = presentation.script.steps[i];
+            if (step.state !== undefined)
+                assignStateFields(this.schema, target, step.state);
+        }
+        target.demo = presentation.step.demo;
+        this.transitionTo(target, { duration: presentation.step.duration });
+
+        this.savePresentation();
+    }
+
+    // Draws the current frame onto another canvas, without reacting to input or saving any state.
+    private renderTo(canvas: Canvas): void {
+        const liveCanvas = this.canvas, { active, hot, focus } = this.ui;
+        this.canvas = canvas;
+        this.ui.active = this.ui.hot = this.ui.focus = null;
+        this.interactive = false;
+
+        try {
+            this.canvas.clearScreen('#fff');
+            this.drawDemo();
+        } finally {
+            this.canvas = liveCanvas;
+            Object.assign(this.ui, { active, hot, focus });
+            this.interactive = true;
+        }
+    }
+
+    public exportSVG(width = this.canvas.width, height = this.canvas.height): string {
+        const pixelRatio = getExportPixelRatio(this.canvas, width, height);
+        return renderSVG((canvas) => this.renderTo(canvas), width, height, pixelRatio);
+    }
+
+    public exportPNG(width = this.canvas.width, height = this.canvas.height): Promise<Blob> {
+        const pixelRatio = getExportPixelRatio(this.canvas, width, height);
+        return renderPNG((canvas) => this.renderTo(canvas), width, height, pixelRatio);
+    }
+
+    public saveSVG(width?: number, height?: number): void {
+        const svg = this.exportSVG(width, height);
+        downloadBlob(new Blob([svg], { type: 'image/svg+xml' }), `viz1-${this.state.demo}.svg`);
+    }
+
+    public async savePNG(width?: number, height?: number): Promise<void> {
+        const png = await this.exportPNG(width, height);
+        downloadBlob(png, `viz1-${this.state.demo}.png`);
+    }
+
+    public startRecording(): void {
+        if (this.recorder !== null)
+            this.recorder.stop();
+
+        // Replays can't pick up in the middle of an animation, so don't start a recording in one either.
+        // They also start without any undo history.
+        this.animator.cancel();
+        this.history.clear();
+        this.transients.clear();
+        this.recorder = new InputRecorder(this.canvas, this.serializeState());
+    }
+
+    public stopRecording(): InputRecording | null {
+        if (this.recorder === null)
+            return null;
+
+        const recording = this.recorder.stop();
+        this.recorder = null;
+        return recording;
+    }
+
+    public saveRecording(): void {
+        const recording = this.stopRecording();
+        if (recording !== null)
+            downloadBlob(new Blob([JSON.stringify(recording)], { type: 'application/json' }), `viz1-recording.json`);
+    }
+
+    public get isReplaying(): boolean {
+        return this.player !== null;
+    }
+
+    // Replays a recording from its starting state. Each following call to update plays back one recorded frame.
+    public replay(recording: InputRecording): void {
+        recording = parseInputRecording(recording);
+
+        this.stopRecording();
+        this.stopReplay();
+
+        this.restoreState(recording.state);
+        this.animator.cancel();
+        this.history.clear();
+        this.handles.cancel();
+        this.ui.active = null;
+        if (recording.frames.length > 0) {
+            this.player = new InputPlayer(this.canvas, recording);
+            if (this.player.problems.length > 0)
+                this.showStatus(this.player.problems.join('; '));
+        }
+    }
+
+    public stopReplay(): void {
+        if (this.player === null)
+            return;
+
+        this.player.stop();
+        this.player = null;
+    }
+
+    private serializeState(): string {
+        return serializeState(this.state);
+    }
+
+    private restoreState(stateString: string): void {
+        const { state, problems } = parseState(this.schema, stateString);
+        if (problems.length > 0)
+            this.showStatus(`Some of the saved scene couldn't be restored: ${problems.join('; ')}`);
+        this.state = state;
+        this.transients.clear();
+    }
+
+    private loadState(): void {
+        const stateString = this.storage !== null ? this.storage.getItem('State') : null;
+        if (stateString !== null)
+            this.restoreState(stateString);
+    }
+
+    // The part of a link to this exact scene that goes after the #.
+    public getStateHash(): string {
+        return encodeStateHash(this.schema, this.state);
+    }
+
+    // Returns false if the hash has no state in it, or one that can't be loaded, which leaves the scene as it is.
+    public loadStateHash(hash: string): boolean {
+        const result = decodeStateHash(this.schema, hash);
+        if (result === null)
+            return false;
+
+        if (result.problems.length > 0)
+            this.showStatus(`Some of the link couldn't be loaded: ${result.problems.join('; ')}`);
+        if (result.state === null)
+            return false;
+
+        // A link shows one scene, so it takes over from any presentation in progress.
+        this.stopPresentation();
+        this.animator.cancel();
+        this.handles.cancel();
+        this.ui.active = null;
+        this.state = result.state;
+        this.transients.clear();
+        return true;
+    }
+
+    // The link is only copied, not put in the address bar, where a reload would load it over newer changes.
+    public copyShareLink(): string {
+        const url = new URL(this.getStateHash(), window.location.href).href;
+        navigator.clipboard.writeText(url).catch((e) => this.showStatus(`Could not copy the link`, e));
+        return url;
+    }
+
+    // The scene state is saved on its own, so a reload only needs to remember where we were in the script.
+    private loadPresentation(): void {
+        const presentationString = this.storage !== null ? this.storage.getItem('Presentation') : null;
+        if (presentationString === null)
+            return;
+
+        try {
+            const { script, stepIndex } = JSON.parse(presentationString);
+            const checkedScript = this.checkPresentationScript(script);
+            if (!Number.isInteger(stepIndex) || stepIndex < 0 || stepIndex >= checkedScript.steps.length)
+                throw new Error(`Presentation step ${JSON.stringify(stepIndex)} is not in the script`);
+
+            this.presentation = new Presentation(checkedScript, stepIndex);
+        } catch(e) {
+            this.showStatus(`Could not restore the presentation`, e);
+            this.stopPresentation();
+        }
+    }
+
+    private savePresentation(): void {
+        if (this.storage === null)
+            return;
+
+        if (this.presentation !== null)
+            this.storage.setItem('Presentation', JSON.stringify({ script: this.presentation.script, stepIndex: this.presentation.stepIndex }));
+        else
+            this.storage.removeItem('Presentation');
+    }
+
+    private saveState(): void {
+        if (this.storage === null)
+            return;
+
+        const stateString = this.serializeState();
+        if (stateString !== this.savedStateString) {
+            this.storage.setItem('State', stateString);
+            this.savedStateString = stateString;
+        }
+    }
+
+    private resetStateToDefault(): void {
+        const target = cloneState(this.stateDefault);
+        this.history.push(this.state, target);
+        this.transitionTo(target);
+    }
+
+    public get canUndo(): boolean {
+        return this.history.canUndo;
+    }
+
+    public get canRedo(): boolean {
+        return this.history.canRedo;
+    }
+
+    // Undoes the last drag gesture or reset. Does nothing in the middle of a gesture.
+    public undo(): void {
+        if (this.isGestureActive())
+            return;
+
+        const fields = this.history.undo();
+        if (fields !== null)
+            this.transitionTo(cloneState({ ... this.state, ... fields }));
+    }
+
+    public redo(): void {
+        if (this.isGestureActive())
+            return;
+
+        const fields = this.history.redo();
+        if (fields !== null)
+            this.transitionTo(cloneState({ ... this.state, ... fields }));
+    }
+
+    public clearHistory(): void {
+        this.history.clear();
+    }
+
+    // Animates every number and vector in the state towards the target, and sets everything else right away.
+    private transitionTo(target: VizState, options: TweenOptions = {}): void {
+        this.transients.clear();
+        for (const key in target) {
+            const from = this.state[key], to = target[key];
+
+            if (isTweenValue(from) && isTweenValue(to)) {
+                const equal = typeof from === 'number' ? from === to : from.every((v, i) => v === (to as Float32Array)[i]);
+                if (!equal)
+                    this.animator.animate(this.state, key, to, this.time, options);
+                else
+                    this.animator.cancel(key);
+            } else {
+                this.animator.cancel(key);
+                this.state[key] = to;
+            }
+        }
+    }
+
+    // Animates the given state fields to new values. Vectors can be given as arrays.
+    public animate(fields: { [field: string]: unknown }, options: TweenOptions = {}): void {
+        const target = cloneState(this.state);
+        const problems = assignStateFields(this.schema, target, fields);
+        if (problems.length > 0)
+            throw new Error(problems.join('; '));
+        this.transitionTo(target, options);
+    }
+}